@@ -1,8 +1,46 @@
+import { useState } from 'react';
 import './App.css'
 import { Chat } from './components/Chat'
 import LinkButton from './components/LinkButton';
+import type { ProactiveTrigger } from './lib/triggers';
+
+// פתיחה יזומה בדף הנחיתה; כל טריגר מוצג למבקר עד 3 פעמים, פעם ביום לכל היותר
+const LANDING_TRIGGERS: ProactiveTrigger[] = [
+  {
+    id: 'products-in-view',
+    when: { type: 'elementVisible', selector: '#products' },
+    message: 'מתעניינים במסועים או בציוד הרמה? אשמח לעזור לבחור ולהכין הצעת מחיר',
+  },
+  {
+    id: 'scroll-depth',
+    when: { type: 'scroll', percent: 60 },
+    message: 'יש שאלה על אחד המוצרים? אני כאן',
+  },
+  {
+    id: 'exit-intent',
+    when: { type: 'exitIntent' },
+    message: 'רגע לפני שהולכים - רוצים הצעת מחיר מהירה?',
+    action: 'open',
+    maxShows: 1,
+  },
+  {
+    id: 'idle-delay',
+    when: { type: 'delay', seconds: 30 },
+    message: 'שלום! מחפשים פתרון שינוע או הרמה? אפשר לשאול אותי כל דבר',
+  },
+];
+
+const PRODUCTS = [
+  { icon: '🏭', title: 'מסועים חלזוניים', description: 'פתרונות שינוע יעילים לחומרים כמו חול, גרגירים ועוד' },
+  { icon: '⚙️', title: 'ציוד הרמה', description: 'מכשירי הרמה מתקדמים ובטוחים לתעשייה' },
+  { icon: '🔧', title: 'פתרונות מותאמים', description: 'פיתוח ציוד מותאם לצרכים הספציפיים שלכם' },
+  { icon: '🛠️', title: 'תחזוקה ותמיכה', description: 'שירות מקצועי ותמיכה טכנית מתמשכת' },
+];
 
 function App() {
+  // המוצר שנבחר נשלח לבוט עם כל הודעה (metadata.product)
+  const [selectedProduct, setSelectedProduct] = useState<string>();
+
   const openWebsite = () => {
     window.open('https://yahav-hamias.co.il/', '_blank', 'noopener,noreferrer');
   };
@@ -53,27 +91,19 @@ function App() {
                 </p>
               </div>
 
-              <div className="grid sm:grid-cols-2 gap-6">
-                <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 border border-gray-200/50 shadow-sm hover:shadow-md transition-all duration-300">
-                  <div className="text-3xl mb-3">🏭</div>
-                  <h3 className="font-semibold text-gray-800 mb-2">מסועים חלזוניים</h3>
-                  <p className="text-gray-600 text-sm">פתרונות שינוע יעילים לחומרים כמו חול, גרגירים ועוד</p>
-                </div>
-                <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 border border-gray-200/50 shadow-sm hover:shadow-md transition-all duration-300">
-                  <div className="text-3xl mb-3">⚙️</div>
-                  <h3 className="font-semibold text-gray-800 mb-2">ציוד הרמה</h3>
-                  <p className="text-gray-600 text-sm">מכשירי הרמה מתקדמים ובטוחים לתעשייה</p>
-                </div>
-                <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 border border-gray-200/50 shadow-sm hover:shadow-md transition-all duration-300">
-                  <div className="text-3xl mb-3">🔧</div>
-                  <h3 className="font-semibold text-gray-800 mb-2">פתרונות מותאמים</h3>
-                  <p className="text-gray-600 text-sm">פיתוח ציוד מותאם לצרכים הספציפיים שלכם</p>
-                </div>
-                <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 border border-gray-200/50 shadow-sm hover:shadow-md transition-all duration-300">
-                  <div className="text-3xl mb-3">🛠️</div>
-                  <h3 className="font-semibold text-gray-800 mb-2">תחזוקה ותמיכה</h3>
-                  <p className="text-gray-600 text-sm">שירות מקצועי ותמיכה טכנית מתמשכת</p>
-                </div>
+              <div id="products" className="grid sm:grid-cols-2 gap-6">
+                {PRODUCTS.map((product) => (
+                  <button
+                    key={product.title}
+                    onClick={() => setSelectedProduct(product.title)}
+                    aria-pressed={selectedProduct === product.title}
+                    className={`text-right bg-white/60 backdrop-blur-sm rounded-2xl p-6 border shadow-sm hover:shadow-md transition-all duration-300 ${selectedProduct === product.title ? 'border-blue-400 ring-2 ring-blue-200' : 'border-gray-200/50'}`}
+                  >
+                    <div className="text-3xl mb-3">{product.icon}</div>
+                    <h3 className="font-semibold text-gray-800 mb-2">{product.title}</h3>
+                    <p className="text-gray-600 text-sm">{product.description}</p>
+                  </button>
+                ))}
               </div>
 
               <div className="flex flex-wrap gap-4">
@@ -125,7 +155,10 @@ function App() {
 
 
       </div>
-      <Chat/>
+      <Chat
+        triggers={LANDING_TRIGGERS}
+        context={{ section: selectedProduct ? 'products' : undefined, product: selectedProduct }}
+      />
     </>
   )
 }
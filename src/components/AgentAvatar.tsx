@@ -0,0 +1,20 @@
+import React from 'react';
+import type { AgentInfo } from '../types/chat';
+
+// אווטאר של נציג אנושי - בצבע שונה מהבוט, כדי שיהיה ברור מי עונה
+const AgentAvatar: React.FC<{ agent?: AgentInfo }> = ({ agent }) => {
+  if (agent?.avatarUrl) {
+    return <img src={agent.avatarUrl} alt={agent.name} className="flex-shrink-0 w-8 h-8 rounded-full object-cover bg-emerald-100" />;
+  }
+  return (
+    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-emerald-600 text-white flex items-center justify-center text-xs font-medium">
+      {agent?.name.trim().charAt(0) || (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default AgentAvatar;
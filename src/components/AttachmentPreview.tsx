@@ -0,0 +1,38 @@
+import React from 'react';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { useI18n } from '../hooks/useI18n';
+import { formatFileSize } from '../lib/fileAttachments';
+
+interface AttachmentPreviewProps {
+  file: File;
+  onRemove: () => void;
+}
+
+// תצוגה מקדימה של קובץ לפני שליחה - תמונה ממוזערת או שם הקובץ
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ file, onRemove }) => {
+  const isImage = file.type.startsWith('image/');
+  const url = useObjectUrl(isImage ? file : undefined);
+  const { t } = useI18n();
+
+  return (
+    <div className="relative flex-shrink-0">
+      {isImage && url ? (
+        <img src={url} alt={file.name} className="w-14 h-14 rounded-lg object-cover border border-slate-200" />
+      ) : (
+        <div className="w-28 h-14 rounded-lg border border-slate-200 bg-slate-50 px-2 py-1 flex flex-col justify-center text-xs text-slate-700">
+          <span className="truncate" dir="auto">📄 {file.name}</span>
+          <span className="text-slate-500">{formatFileSize(file.size)}</span>
+        </div>
+      )}
+      <button
+        onClick={onRemove}
+        title={t('removeFile')}
+        className="absolute -top-1.5 -end-1.5 w-5 h-5 rounded-full bg-primary text-on-primary text-xs leading-none flex items-center justify-center hover:bg-primary-hover"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default AttachmentPreview;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { useTheme } from '../hooks/useTheme';
+
+const BotAvatar: React.FC = () => {
+  const { avatarUrl, avatarText, botName } = useTheme();
+
+  if (avatarUrl) {
+    return <img src={avatarUrl} alt={botName} className="flex-shrink-0 w-8 h-8 rounded-full object-cover bg-accent" />;
+  }
+  return (
+    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-accent text-on-accent border border-on-accent/20 flex items-center justify-center text-xs font-medium">
+      {avatarText}
+    </div>
+  );
+};
+
+export default BotAvatar;
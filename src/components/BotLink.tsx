@@ -0,0 +1,26 @@
+import React from 'react';
+import LinkButton from './LinkButton';
+import { usePolicyLink } from '../hooks/usePolicyLink';
+
+interface BotLinkProps {
+  href: string;
+  icon?: string;
+  children: React.ReactNode;
+}
+
+// קישור מתשובת הבוט - עובר את מדיניות הקישורים לפני שהוא הופך ללחיץ
+const BotLink: React.FC<BotLinkProps> = ({ href, icon, children }) => {
+  const link = usePolicyLink(href);
+
+  if (!link) {
+    return <span className="mx-1">{children}</span>;
+  }
+
+  return (
+    <LinkButton href={link.href} icon={icon} sameTab={link.sameTab} onClick={link.onClick}>
+      {children}
+    </LinkButton>
+  );
+};
+
+export default BotLink;
@@ -1,62 +1,306 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useImperativeHandle, useMemo } from 'react';
 import { ulid } from 'ulid';
 import ChatHeader from './ChatHeader';
 import ChatMessages from './ChatMessages';
 import ChatInput from './ChatInput';
-import { type Message } from './ChatMessage';
+import ChatLauncher from './ChatLauncher';
+import LeadForm from './LeadForm';
+import LeaveConfirmation from './LeaveConfirmation';
+import type { Message, MessageFeedback } from '../types/chat';
+import {
+  createTransport,
+  DEFAULT_RETRY_POLICY,
+  toChatTransportError,
+  withRetry,
+  type ChatTransport,
+  type RetryPolicy,
+  type TransportOptions,
+} from '../lib/transport';
+import { createDefaultStore, DEFAULT_RETENTION, type MessageStore, type RetentionPolicy } from '../lib/storage';
+import { getConversationTitle, useConversations } from '../hooks/useConversations';
+import { useSessionMessages } from '../hooks/useSessionMessages';
+import { useResolvedColorScheme } from '../hooks/useTheme';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { clearDraft, useDraft } from '../hooks/useDraft';
+import { clearHandoff, useHandoff } from '../hooks/useHandoff';
+import { useProactiveTriggers } from '../hooks/useProactiveTriggers';
+import { useCooldown } from '../hooks/useCooldown';
+import { DEFAULT_THEME, resolveTheme, themeVariables, ThemeContext, type ChatThemeConfig } from '../lib/theme';
+import { createI18n, I18nContext, resolveLocale, type Messages } from '../lib/i18n';
+import { hasLeadValues, resolveLeadForm, type LeadFormConfig, type LeadInfo } from '../lib/lead';
+import type { ProactiveTrigger } from '../lib/triggers';
+import { collectPageContext, DEFAULT_CONTEXT_ALLOW_LIST, filterContext } from '../lib/pageContext';
+import { LinkPolicyContext, resolveLinkPolicy, type LinkPolicyConfig } from '../lib/linkPolicy';
+import {
+  createRateLimiter,
+  DEFAULT_DUPLICATE_WINDOW_MS,
+  DEFAULT_RATE_LIMIT,
+  isDuplicateMessage,
+  requestVerificationToken,
+  type ProtectionConfig,
+} from '../lib/protection';
+import {
+  AnalyticsContext,
+  createAnalytics,
+  resolveSinks,
+  type Analytics,
+  type AnalyticsConfig,
+  type ChatEvent,
+} from '../lib/analytics';
+import {
+  downloadTranscript,
+  importTranscript,
+  parseTranscript,
+  printTranscript,
+  renderTranscript,
+  transcriptToHtml,
+  transcriptToText,
+  type Transcript,
+  type TranscriptFormat,
+  type TranscriptOptions,
+} from '../lib/transcript';
+import {
+  DEFAULT_ATTACHMENT_LIMITS,
+  toFileAttachment,
+  toFiles,
+  validateFiles,
+  type AttachmentLimits,
+} from '../lib/fileAttachments';
 
-const STORAGE_KEYS = {
-  SESSION_ID: 'chat_session_id',
-  MESSAGES: 'chat_messages',
-};
+const createGreeting = (greeting: string[]): Message[] =>
+  greeting.map((text, index) => ({
+    id: String(index + 1),
+    text,
+    isUser: false,
+    timestamp: new Date(),
+  }));
 
-export const Chat = () => {
-  const getOrCreateSessionId = useCallback(() => {
-    let sessionId = localStorage.getItem(STORAGE_KEYS.SESSION_ID);
-    if (!sessionId) {
-      sessionId = ulid();
-      localStorage.setItem(STORAGE_KEYS.SESSION_ID, sessionId);
-    }
-    return sessionId;
-  }, []);
+/** שליטה בצ'אט מבחוץ (ה-widget וה-API של window.ChatWidget) */
+export interface ChatHandle {
+  open(): void;
+  close(): void;
+  sendMessage(text: string): void;
+  /** עדכון שדות הקשר (למשל המוצר שנבחר); ערך null מוחק שדה */
+  setContext(fields: Record<string, unknown>): void;
+  /** הסכמת המבקר לאיסוף אירועים; עד שניתנה - לא נשלח דבר */
+  setAnalyticsConsent(granted: boolean): void;
+}
 
-  const loadMessages = useCallback(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.MESSAGES);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        return parsed.map((msg: Message) => ({ ...msg, timestamp: new Date(msg.timestamp) }));
-      }
-    } catch (error) {
-      console.error('Error loading messages:', error);
-    }
-    return [
+/** הודעה שנשלחת בזמן שתשובה עדיין בדרך: queue - נשלחת אחריה, replace - הבקשה הקודמת מבוטלת */
+export type PendingMessagePolicy = 'queue' | 'replace';
+
+interface ChatProps {
+  ref?: React.Ref<ChatHandle>;
+  /** transport מוכן - גובר על adapter ו-transportOptions */
+  transport?: ChatTransport;
+  /** שם adapter רשום (ברירת מחדל: VITE_CHAT_TRANSPORT או n8n) */
+  adapter?: string;
+  /** הגדרות ל-adapter: webhookUrl, headers, fieldMapping */
+  transportOptions?: TransportOptions;
+  /** אחסון ההודעות (ברירת מחדל: IndexedDB, או localStorage כשאין תמיכה) */
+  store?: MessageStore;
+  /** מדיניות מחיקת שיחות ישנות */
+  retention?: RetentionPolicy;
+  /** ניסיונות חוזרים ו-timeout לשליחת הודעה */
+  retryPolicy?: Partial<RetryPolicy>;
+  pendingPolicy?: PendingMessagePolicy;
+  /** מספר התווים המקסימלי בהודעה */
+  maxMessageLength?: number;
+  /** מגבלות על קבצים מצורפים (גודל, כמות וסוגים) */
+  attachmentLimits?: Partial<AttachmentLimits>;
+  /** כפתור מיקרופון (תמלול מקומי או הקלטת אודיו) */
+  voiceInput?: boolean;
+  /** כפתור הקראה בקול בתשובות הבוט */
+  readAloud?: boolean;
+  /** שפת הממשק (he-IL, en-US, ar, ru...); ברירת מחדל: שפת הדפדפן אם יש לה קטלוג, אחרת עברית */
+  locale?: string;
+  /** החלפת מחרוזות בודדות בקטלוג */
+  translations?: Partial<Messages>;
+  /** שפת התמלול וההקראה (ברירת מחדל: שפת הממשק) */
+  speechLang?: string;
+  /** צבעים, שם הבוט, אווטאר, מיקום, הודעות פתיחה ומצב כהה */
+  theme?: ChatThemeConfig;
+  /** טופס פרטי קשר (שם, טלפון, חברה...) לפני השיחה או כשהבוט מבקש; בלי ההגדרה - אין טופס */
+  leadForm?: LeadFormConfig;
+  /** פתיחה יזומה: אחרי זמן, בגלילה, בכוונת יציאה או כשאזור בעמוד נראה */
+  triggers?: ProactiveTrigger[];
+  /** שדות מהאתר המארח שנשלחים עם כל הודעה, למשל { product, section } */
+  context?: Record<string, unknown>;
+  /** השדות שמותר לשלוח ב-metadata (ברירת מחדל: DEFAULT_CONTEXT_ALLOW_LIST); כל השאר מסוננים */
+  contextAllowList?: string[];
+  /** אירועי שימוש (פתיחה, הודעות, זמני תגובה, שגיאות, קליקים ודירוג) ליעדים: console, beacon, dataLayer */
+  analytics?: AnalyticsConfig;
+  /** מדיניות לקישורים בתשובות הבוט: schemes ודומיינים מותרים, דומיינים פנימיים ואישור לפני יציאה */
+  linkPolicy?: LinkPolicyConfig;
+  /** הגנה על ה-webhook: הגבלת קצב, חסימת הודעות כפולות ואימות אנושי (captcha) */
+  protection?: ProtectionConfig;
+  /** נקרא על כל הודעה שנשלחה או שהתקבלה במלואה */
+  onMessage?: (message: Message) => void;
+  onOpen?: () => void;
+  onClose?: () => void;
+}
+
+export const Chat = ({
+  ref,
+  transport,
+  adapter,
+  transportOptions,
+  store,
+  retention,
+  retryPolicy,
+  pendingPolicy = 'queue',
+  maxMessageLength = 2000,
+  attachmentLimits,
+  voiceInput = true,
+  readAloud = true,
+  locale,
+  translations,
+  speechLang,
+  theme,
+  leadForm,
+  triggers,
+  context,
+  contextAllowList,
+  analytics,
+  linkPolicy,
+  protection,
+  onMessage,
+  onOpen,
+  onClose,
+}: ChatProps) => {
+  // ה-transport וה-store נוצרים פעם אחת בטעינה, כדי שאובייקט הגדרות inline לא ייצור אותם מחדש בכל רינדור
+  const [chatTransport] = useState(() => transport ?? createTransport(adapter, transportOptions));
+  const [messageStore] = useState(() => store ?? createDefaultStore());
+  const [retentionPolicy] = useState(() => retention ?? DEFAULT_RETENTION);
+  const [policy] = useState(() => ({ ...DEFAULT_RETRY_POLICY, ...retryPolicy }));
+  const [leadSettings] = useState(() => (leadForm ? resolveLeadForm(leadForm) : null));
+  const [proactiveTriggers] = useState(() => triggers ?? []);
+  const [contextFields] = useState(() => contextAllowList ?? DEFAULT_CONTEXT_ALLOW_LIST);
+  const [analyticsConfig] = useState(() => analytics);
+  // היעדים נוצרים בכל mount ומשוחררים ב-unmount (מאזינים לסגירת העמוד, אצווה שממתינה); ההסכמה נשמרת ביניהם
+  const analyticsRef = useRef<Analytics | null>(null);
+  const analyticsConsentRef = useRef(analytics?.consent ?? false);
+  useEffect(() => {
+    const instance = createAnalytics(resolveSinks(analyticsConfig), analyticsConsentRef.current);
+    analyticsRef.current = instance;
+    return () => {
+      instance.dispose();
+      analyticsRef.current = null;
+    };
+  }, [analyticsConfig]);
+  const [linkSettings] = useState(() => resolveLinkPolicy(linkPolicy));
+  const [rateLimiter] = useState(() =>
+    protection?.rateLimit === false ? null : createRateLimiter({ ...DEFAULT_RATE_LIMIT, ...protection?.rateLimit })
+  );
+  const [verifier] = useState(() => protection?.verifier);
+  const duplicateWindowMs = protection?.duplicateWindowMs ?? DEFAULT_DUPLICATE_WINDOW_MS;
+  // קישור חיצוני שממתין לאישור המשתמש
+  const [leavingTo, setLeavingTo] = useState<{ href: string; host: string } | null>(null);
+  const linkContext = useMemo(
+    () => ({ policy: linkSettings, confirmExternal: (href: string, host: string) => setLeavingTo({ href, host }) }),
+    [linkSettings]
+  );
+  // שדות שהאתר המארח עדכן בזמן ריצה (ChatHandle.setContext)
+  const [runtimeContext, setRuntimeContext] = useState<Record<string, unknown>>({});
+  const i18n = useMemo(() => createI18n(resolveLocale(locale), translations), [locale, translations]);
+  const { t } = i18n;
+  const voiceLang = speechLang ?? i18n.locale;
+  const chatTheme = useMemo(
+    () => resolveTheme(theme, { ...DEFAULT_THEME, botName: t('botName'), greeting: [t('greeting')] }),
+    [theme, t]
+  );
+  const colorScheme = useResolvedColorScheme(chatTheme.colorScheme);
+
+  const {
+    conversations,
+    activeId: sessionId,
+    isReady,
+    isNewConversation,
+    createConversation,
+    addConversation,
+    switchConversation,
+    renameConversation,
+    setConversationLead,
+    deleteConversation,
+    syncConversation,
+  } = useConversations(messageStore, retentionPolicy);
+  const trackEvent = useCallback((event: ChatEvent) => analyticsRef.current?.track(event, sessionId), [sessionId]);
+  const lead = conversations.find((conversation) => conversation.id === sessionId)?.lead;
+  // כל בקשה ל-webhook נושאת את העמוד הנוכחי, שדות מהאתר המארח, שפת הממשק ופרטי הקשר - אחרי סינון ה-allow-list
+  const requestMetadata = () =>
+    filterContext(
       {
-        id: '1',
-        text: 'שלום! אני כאן לעזור לך. איך אני יכול לסייע?',
-        isUser: false,
-        timestamp: new Date(),
+        ...collectPageContext(),
+        ...context,
+        ...runtimeContext,
+        locale: i18n.locale,
+        lead: hasLeadValues(lead) ? lead : undefined,
       },
-    ];
-  }, []);
-
-  const [sessionId] = useState(() => getOrCreateSessionId());
-  const [messages, setMessages] = useState<Message[]>(loadMessages);
-  const [inputValue, setInputValue] = useState('');
+      contextFields
+    );
+  const { messages, setMessages, isLoadingHistory } = useSessionMessages({
+    store: messageStore,
+    transport: chatTransport,
+    sessionId,
+    isNewConversation,
+    isStoreReady: isReady,
+    createInitialMessages: () => createGreeting(chatTheme.greeting),
+  });
+  const [inputValue, setInputValue] = useDraft(sessionId);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const cooldownSeconds = useCooldown(cooldownUntil);
+  const limits = { ...DEFAULT_ATTACHMENT_LIMITS, ...attachmentLimits };
   const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [teaser, setTeaser] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [typingMessageId, setTypingMessageId] = useState<string | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  // השיחה שבה הבוט ביקש פרטי קשר
+  const [leadRequestedFor, setLeadRequestedFor] = useState<string | null>(null);
+  // הבקשה האחרונה נכשלה בגלל רשת, גם אם navigator.onLine עדיין true
+  const [connectionLost, setConnectionLost] = useState(false);
+  const isOnline = useOnlineStatus();
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
-  const inputRef = useRef<HTMLInputElement | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const callbacksRef = useRef({ onMessage, onOpen, onClose });
+  const wasOpenRef = useRef(isOpen);
 
-  const saveMessages = useCallback((newMessages: Message[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(newMessages));
-    } catch (error) {
-      console.error('Error saving messages:', error);
+  useEffect(() => {
+    callbacksRef.current = { onMessage, onOpen, onClose };
+  });
+
+  useEffect(() => {
+    if (wasOpenRef.current === isOpen) return;
+    wasOpenRef.current = isOpen;
+    if (isOpen) callbacksRef.current.onOpen?.();
+    else callbacksRef.current.onClose?.();
+    trackEvent({ name: isOpen ? 'widget_open' : 'widget_close' });
+  }, [isOpen, trackEvent]);
+
+  // wasOpenRef מתעדכן מיד אחרי הרינדור, כך שהוא משקף אם החלון פתוח כשהתשובה מגיעה
+  const emitMessage = useCallback((message: Message) => {
+    callbacksRef.current.onMessage?.(message);
+    if (!message.isUser && message.sender !== 'system' && !wasOpenRef.current) {
+      setUnreadCount((count) => count + 1);
     }
   }, []);
 
+  const openChat = () => {
+    setIsOpen(true);
+    setUnreadCount(0);
+    setTeaser(null);
+  };
+
+  const sentHistory = useMemo(
+    () => messages.filter((msg) => msg.isUser && msg.text.trim()).map((msg) => msg.text),
+    [messages]
+  );
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -65,13 +309,39 @@ export const Chat = () => {
     scrollToBottom();
   }, [messages]);
 
-  const updateMessages = useCallback(
-    (newMessages: Message[]) => {
-      setMessages(newMessages);
-      saveMessages(newMessages);
-    },
-    [saveMessages]
-  );
+  useEffect(() => {
+    syncConversation(sessionId, messages);
+  }, [sessionId, messages, syncConversation]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateMessage = useCallback((id: string, changes: Partial<Message>) => {
+    setMessages((prev) => prev.map((msg) => (msg.id === id ? { ...msg, ...changes } : msg)));
+  }, [setMessages]);
+
+  // הודעות נציג ומערכת; הודעה שכבר קיימת (SSE שהתחבר מחדש) לא נוספת שוב
+  const addIncomingMessage = useCallback((message: Message) => {
+    setMessages((prev) => (prev.some((msg) => msg.id === message.id) ? prev : [...prev, message]));
+    emitMessage(message);
+  }, [setMessages, emitMessage]);
+
+  const { handoff, requestHandoff, endHandoff } = useHandoff({
+    transport: chatTransport,
+    sessionId,
+    addMessage: addIncomingMessage,
+    t,
+    metadata: requestMetadata(),
+  });
+
+  const trackSent = (message: Message, resend?: 'edit' | 'regenerate') =>
+    trackEvent({
+      name: 'message_sent',
+      messageId: message.id,
+      length: message.text.length,
+      attachments: message.attachments?.length ?? 0,
+      recipient: handoff ? 'agent' : 'bot',
+      resend,
+    });
 
   useEffect(() => {
     if (isOpen && inputRef.current) {
@@ -79,67 +349,439 @@ export const Chat = () => {
     }
   }, [isOpen]);
 
-  const sendMessage = async () => {
-    if (!inputValue.trim()) return;
+  const addFiles = (files: File[]) => {
+    const { accepted, errors } = validateFiles(files, pendingFiles.length, limits, t);
+    setPendingFiles((prev) => [...prev, ...accepted]);
+    setAttachmentError(errors.length > 0 ? errors.join(' · ') : null);
+  };
+
+  const removeFile = (index: number) => {
+    setPendingFiles((prev) => prev.filter((_, i) => i !== index));
+    setAttachmentError(null);
+  };
+
+  // כל שליחה יזומה של המשתמש נספרת; כשהמכסה נגמרה - ספירה לאחור בתיבת ההקלדה
+  const checkRateLimit = () => {
+    if (!rateLimiter) return true;
+    const retryAfter = rateLimiter.retryAfter();
+    if (retryAfter > 0) {
+      setCooldownUntil(Date.now() + retryAfter);
+      return false;
+    }
+    rateLimiter.record();
+    return true;
+  };
+
+  const sendMessage = (text: string = inputValue, files: File[] = pendingFiles) => {
+    if ((!text.trim() && files.length === 0) || text.length > maxMessageLength) return;
+    if (files.length === 0 && isDuplicateMessage(text, messages, duplicateWindowMs)) {
+      setInputNotice(t('duplicateMessage'));
+      return;
+    }
+    if (!checkRateLimit()) return;
+    setInputNotice(null);
+    const waitForPending = isLoading && pendingPolicy === 'queue';
 
     const userMessage: Message = {
       id: ulid(),
-      text: inputValue,
+      text,
       isUser: true,
       timestamp: new Date(),
+      attachments: files.length > 0 ? files.map(toFileAttachment) : undefined,
+      // בלי חיבור, או כשתשובה קודמת עדיין בדרך, ההודעה נכנסת לתור
+      status: navigator.onLine && !waitForPending ? 'sending' : 'queued',
     };
 
-    const newMessagesWithUser = [...messages, userMessage];
-    updateMessages(newMessagesWithUser);
-    setInputValue('');
-    setIsLoading(true);
+    setMessages((prev) => [...prev, userMessage]);
+    emitMessage(userMessage);
+    trackSent(userMessage);
+    if (text === inputValue) setInputValue('');
+    if (files === pendingFiles) {
+      setPendingFiles([]);
+      setAttachmentError(null);
+    }
+    if (userMessage.status === 'sending') {
+      if (isLoading) stopResponse();
+      deliverMessage(userMessage, files);
+    }
+  };
 
+  // במצב נציג ההודעה נשלחת לנציג, והתשובה מגיעה כאירוע (useHandoff)
+  const deliverToAgent = async (userMessage: Message, files: File[]) => {
+    updateMessage(userMessage.id, { status: 'sending', failureReason: undefined });
     try {
-      const response = await fetch('https://n8n.srv862915.hstgr.cloud/webhook/5dbfb8fd-fad3-4634-8638-d89222f12e2b/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ chatInput: inputValue, sessionId, action: 'sendMessage' }),
+      await withRetry(
+        async (signal) =>
+          chatTransport.handoff!.send({
+            message: userMessage.text,
+            sessionId,
+            files,
+            metadata: requestMetadata(),
+            verificationToken: await requestVerificationToken(verifier, 'agentMessage', signal),
+            signal,
+          }),
+        // הודעה לנציג לא נעצרת בכפתור העצירה - אין תשובה מוזרמת לבטל
+        { ...policy, signal: new AbortController().signal }
+      );
+      updateMessage(userMessage.id, { status: 'sent' });
+      setConnectionLost(false);
+    } catch (error) {
+      const chatError = toChatTransportError(error);
+      console.error('Error sending message to agent:', chatError);
+      trackEvent({ name: 'error', errorType: chatError.kind, status: chatError.status, recipient: 'agent' });
+      if (chatError.kind === 'network') setConnectionLost(true);
+      if (!navigator.onLine) {
+        updateMessage(userMessage.id, { status: 'queued' });
+      } else {
+        updateMessage(userMessage.id, { status: 'failed', failureReason: chatError.failureReason });
+      }
+    }
+  };
+
+  // שליחת הודעת משתמש (חדשה, מהתור או בניסיון חוזר) וקבלת התשובה
+  const deliverMessage = async (userMessage: Message, files: File[], metadata?: Record<string, unknown>) => {
+    if (handoff && chatTransport.handoff) {
+      await deliverToAgent(userMessage, files);
+      return;
+    }
+
+    setIsLoading(true);
+    setStreamingMessageId(null);
+    updateMessage(userMessage.id, { status: 'sending', failureReason: undefined });
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let botMessageId: string | null = null;
+    // עותק מקומי של ההודעה המוזרמת, כדי לדווח עליה ב-onMessage בסיום
+    let streamedMessage: Message | null = null;
+    const startedAt = performance.now();
+    let firstChunkAt: number | null = null;
+
+    const trackResponse = (messageId: string, streamed: boolean) =>
+      trackEvent({
+        name: 'response_received',
+        messageId,
+        latencyMs: Math.round(performance.now() - startedAt),
+        firstChunkMs: firstChunkAt === null ? undefined : Math.round(firstChunkAt - startedAt),
+        streamed,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    const appendToBotMessage = (delta: string) => {
+      if (!botMessageId) {
+        const id = ulid();
+        botMessageId = id;
+        firstChunkAt = performance.now();
+        streamedMessage = { id, text: delta, isUser: false, timestamp: new Date() };
+        setStreamingMessageId(id);
+        setMessages((prev) => [...prev, { ...streamedMessage!, isStreaming: true }]);
+        return;
+      }
+      const id = botMessageId;
+      streamedMessage = { ...streamedMessage!, text: streamedMessage!.text + delta };
+      setMessages((prev) => prev.map((msg) => (msg.id === id ? { ...msg, text: msg.text + delta } : msg)));
+    };
+
+    try {
+      const result = await withRetry(
+        async (signal, touch) =>
+          chatTransport.stream(
+            {
+              message: userMessage.text,
+              sessionId,
+              files,
+              metadata: { ...requestMetadata(), ...metadata },
+              // טוקן חדש לכל ניסיון - טוקנים של captcha חד-פעמיים
+              verificationToken: await requestVerificationToken(verifier, 'sendMessage', signal),
+              signal,
+            },
+            (delta) => {
+              touch();
+              appendToBotMessage(delta);
+            }
+          ),
+        // אחרי שחלק מהתשובה כבר הוצג לא שולחים שוב - זה היה משכפל את התשובה
+        { ...policy, signal: controller.signal, shouldRetry: () => !botMessageId }
+      );
+      updateMessage(userMessage.id, { status: 'sent' });
+      setConnectionLost(false);
+      if (result.handoff) requestHandoff('bot', result.handoff.reason);
+      if (result.collectLead && leadSettings) setLeadRequestedFor(sessionId);
+
+      const richAttachments = result.richAttachments?.length ? result.richAttachments : undefined;
+      const attachments = result.attachments?.length ? result.attachments : undefined;
+
+      if (result.streamed && botMessageId) {
+        updateMessage(botMessageId, { isStreaming: false, richAttachments, attachments });
+        emitMessage({ ...streamedMessage!, richAttachments, attachments });
+        trackResponse(botMessageId, true);
+        return;
       }
 
-      const data = await response.json();
-      const botResponseText = data.response || data.message || data.output || data.text || (typeof data === 'string' ? data : 'מצטער, לא הצלחתי לעבד את ההודעה. נסה שוב.');
+      // תשובת JSON רגילה - מציגים עם אנימציית הקלדה
+      const botResponseText =
+        result.text || (richAttachments || attachments ? '' : t('processingError'));
 
       const botMessage: Message = {
         id: ulid(),
         text: botResponseText,
         isUser: false,
         timestamp: new Date(),
-        isTyping: true,
+        isTyping: !!botResponseText,
+        richAttachments,
+        attachments,
       };
 
-      const finalMessages = [...newMessagesWithUser, botMessage];
-      updateMessages(finalMessages);
-      setTypingMessageId(botMessage.id);
+      setMessages((prev) => [...prev, botMessage]);
+      emitMessage(botMessage);
+      trackResponse(botMessage.id, false);
+      if (botMessage.isTyping) setTypingMessageId(botMessage.id);
     } catch (error) {
-      console.error('Error sending message:', error);
-      const errorMessage: Message = {
-        id: ulid(),
-        text: 'מצטער, יש בעיה בחיבור. נסה שוב מאוחר יותר.',
-        isUser: false,
-        timestamp: new Date(),
-        isTyping: true,
-      };
-      const finalMessages = [...newMessagesWithUser, errorMessage];
-      updateMessages(finalMessages);
+      if (botMessageId) {
+        // הסטרים נקטע באמצע - שומרים את מה שהתקבל ומסמנים כלא שלם
+        updateMessage(userMessage.id, { status: 'sent' });
+        updateMessage(botMessageId, { isStreaming: false, isIncomplete: true });
+        emitMessage({ ...streamedMessage!, isIncomplete: true });
+        trackEvent({ name: 'error', errorType: toChatTransportError(error).kind, recipient: 'bot', partial: true });
+        return;
+      }
+
+      const chatError = toChatTransportError(error);
+      if (chatError.kind === 'aborted') {
+        updateMessage(userMessage.id, { status: 'failed', failureReason: chatError.failureReason });
+        return;
+      }
+
+      console.error('Error sending message:', chatError);
+      trackEvent({ name: 'error', errorType: chatError.kind, status: chatError.status, recipient: 'bot' });
+      if (chatError.kind === 'network') setConnectionLost(true);
+      if (!navigator.onLine) {
+        updateMessage(userMessage.id, { status: 'queued' });
+      } else {
+        updateMessage(userMessage.id, { status: 'failed', failureReason: chatError.failureReason });
+      }
     } finally {
-      setIsLoading(false);
+      // ב-replace בקשה חדשה כבר יכולה להיות פעילה - לא דורסים את המצב שלה
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setStreamingMessageId(null);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const retryMessage = (id: string) => {
+    const message = messages.find((msg) => msg.id === id);
+    if (!message || !checkRateLimit()) return;
+    if (isLoading) {
+      updateMessage(id, { status: 'queued', failureReason: undefined });
+      return;
+    }
+    deliverMessage(message, toFiles(message.attachments));
+  };
+
+  // הודעת המשתמש שעליה ענתה התשובה במיקום index
+  const findQuestion = (index: number) => messages.slice(0, index).reverse().find((msg) => msg.isUser);
+
+  // עריכת הודעה: ההודעה וכל מה שאחריה מוחלפים בגרסה הערוכה, שנשלחת מחדש עם אותם קבצים
+  const editMessage = (id: string, text: string) => {
+    const index = messages.findIndex((msg) => msg.id === id);
+    if (index === -1 || !text.trim() || text.length > maxMessageLength || !checkRateLimit()) return;
+    stopResponse();
+    const original = messages[index];
+    const edited: Message = {
+      id: ulid(),
+      text,
+      isUser: true,
+      timestamp: new Date(),
+      attachments: original.attachments,
+      status: navigator.onLine ? 'sending' : 'queued',
+    };
+    setMessages((prev) => [...prev.slice(0, prev.findIndex((msg) => msg.id === id)), edited]);
+    emitMessage(edited);
+    trackSent(edited, 'edit');
+    if (edited.status === 'sending') deliverMessage(edited, toFiles(edited.attachments), { resend: 'edit' });
+  };
+
+  // תשובה חדשה: התשובה הקיימת נמחקת והודעת המשתמש שלפניה נשלחת שוב
+  const regenerateMessage = (id: string) => {
+    const index = messages.findIndex((msg) => msg.id === id);
+    const userMessage = findQuestion(index);
+    if (index === -1 || !userMessage || isLoading || !checkRateLimit()) return;
+    stopResponse();
+    setMessages((prev) => prev.slice(0, prev.findIndex((msg) => msg.id === userMessage.id) + 1));
+    trackSent(userMessage, 'regenerate');
+    deliverMessage(userMessage, toFiles(userMessage.attachments), { resend: 'regenerate' });
+  };
+
+  const rateMessage = (id: string, feedback: MessageFeedback) => {
+    const index = messages.findIndex((msg) => msg.id === id);
+    if (index === -1) return;
+    updateMessage(id, { feedback });
+    trackEvent({ name: 'feedback', messageId: id, rating: feedback.rating, hasComment: !!feedback.comment?.trim() });
+    const question = findQuestion(index);
+    chatTransport
+      .sendFeedback?.({
+        sessionId,
+        messageId: id,
+        message: messages[index].text,
+        userMessageId: question?.id,
+        question: question?.text,
+        ...feedback,
+        metadata: requestMetadata(),
+      })
+      .catch((error) => console.error('Error sending feedback:', error));
+  };
+
+  // לפני ההודעה הראשונה (אם לא מולא ולא דולג), או כשהבוט ביקש והפרטים עוד לא נמסרו
+  const isLeadFormOpen =
+    !!leadSettings &&
+    !hasLeadValues(lead) &&
+    (leadRequestedFor === sessionId ||
+      (leadSettings.trigger === 'beforeChat' && !lead && !isLoadingHistory && !messages.some((msg) => msg.isUser)));
+
+  // הפרטים מהשיחה האחרונה שבה מולאו - כדי לא לבקש שוב מאפס
+  const previousLead = useMemo(
+    () =>
+      [...conversations]
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+        .find((conversation) => hasLeadValues(conversation.lead))?.lead,
+    [conversations]
+  );
+
+  const submitLead = (value: LeadInfo) => {
+    setConversationLead(sessionId, value);
+    if (leadRequestedFor === sessionId) {
+      addIncomingMessage({ id: ulid(), text: t('leadSaved'), isUser: false, sender: 'system', timestamp: new Date() });
+      setLeadRequestedFor(null);
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      sendMessage();
+  const skipLead = () => {
+    setConversationLead(sessionId, lead ?? {});
+    setLeadRequestedFor(null);
+  };
+
+  // השיחה הפעילה לייצוא; בשיחה חדשה ייתכן שעוד אין רשומה ב-store
+  const currentTranscript = (): { transcript: Transcript; options: TranscriptOptions } => {
+    const conversation = conversations.find((item) => item.id === sessionId) ?? {
+      id: sessionId,
+      title: '',
+      createdAt: messages[0]?.timestamp ?? new Date(),
+      updatedAt: messages[messages.length - 1]?.timestamp ?? new Date(),
+    };
+    return {
+      transcript: { conversation, messages },
+      options: {
+        title: getConversationTitle(conversation, t('newConversation')),
+        botName: chatTheme.botName,
+        userName: t('transcriptUser'),
+        i18n,
+      },
+    };
+  };
+
+  const exportConversation = (format: TranscriptFormat) => {
+    const { transcript, options } = currentTranscript();
+    downloadTranscript(renderTranscript(format, transcript, options), options.title);
+  };
+
+  const printConversation = () => {
+    const { transcript, options } = currentTranscript();
+    printTranscript(transcriptToHtml(transcript, options));
+  };
+
+  const emailTranscript = async (email: string) => {
+    const { transcript, options } = currentTranscript();
+    await chatTransport.sendTranscript!({
+      sessionId,
+      email,
+      text: transcriptToText(transcript, options),
+      html: transcriptToHtml(transcript, options),
+      metadata: requestMetadata(),
+    });
+  };
+
+  // טריגר יזום: הודעת פתיחה מהבוט, ואז פתיחת החלון או בועה ליד הכפתור
+  useProactiveTriggers(proactiveTriggers, !isOpen && isReady && !isLoadingHistory, (trigger) => {
+    const opener: Message = { id: ulid(), text: trigger.message, isUser: false, timestamp: new Date() };
+    setMessages((prev) => [...prev, opener]);
+    emitMessage(opener);
+    if (trigger.action === 'open') openChat();
+    else setTeaser(trigger.message);
+  });
+
+  // חזרת החיבור - ההודעות שחיכו בתור נשלחות אחת אחרי השנייה
+  const deliverRef = useRef(deliverMessage);
+  useEffect(() => {
+    deliverRef.current = deliverMessage;
+  });
+
+  useEffect(() => {
+    if (!isOnline || isLoading) return;
+    const queued = messages.find((msg) => msg.status === 'queued');
+    if (queued) deliverRef.current(queued, toFiles(queued.attachments));
+  }, [isOnline, isLoading, messages]);
+
+  useImperativeHandle(ref, () => ({
+    open: openChat,
+    close: () => setIsOpen(false),
+    sendMessage: (text: string) => {
+      openChat();
+      sendMessage(text, []);
+    },
+    setContext: (fields: Record<string, unknown>) => setRuntimeContext((prev) => ({ ...prev, ...fields })),
+    setAnalyticsConsent: (granted: boolean) => {
+      analyticsConsentRef.current = granted;
+      analyticsRef.current?.setConsent(granted);
+    },
+  }));
+
+  // עצירה: מבטלים את הבקשה הפעילה ומציגים מיד את סוף אנימציית ההקלדה
+  const stopResponse = () => {
+    abortControllerRef.current?.abort();
+    if (typingMessageId) handleTypingComplete(typingMessageId);
+  };
+
+  // מעבר בין שיחות - עוצרים בקשה פעילה; ההודעות של השיחה החדשה נטענות ב-useSessionMessages
+  const resetActiveConversation = () => {
+    abortControllerRef.current?.abort();
+    setTypingMessageId(null);
+  };
+
+  const handleNewConversation = () => {
+    resetActiveConversation();
+    createConversation();
+  };
+
+  const handleSelectConversation = (id: string) => {
+    if (id === sessionId) return;
+    resetActiveConversation();
+    switchConversation(id);
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    if (id === sessionId) {
+      resetActiveConversation();
     }
+    clearDraft(id);
+    clearHandoff(id);
+    deleteConversation(id);
+  };
+
+  /** ייבוא תמליל JSON שיוצא קודם; זורק אם הקובץ לא תקין */
+  const handleImportConversation = async (file: File) => {
+    const transcript = parseTranscript(await file.text());
+    // השיחה הפעילה לא נדרסת מתחת להודעות שבזיכרון - התמליל שלה נכנס כשיחה נפרדת
+    const conversation =
+      transcript.conversation.id === sessionId ? { ...transcript.conversation, id: ulid() } : transcript.conversation;
+    await importTranscript(messageStore, { conversation, messages: transcript.messages });
+    resetActiveConversation();
+    addConversation(conversation);
+  };
+
+  const confirmLeave = () => {
+    if (leavingTo) window.open(leavingTo.href, '_blank', 'noopener,noreferrer');
+    setLeavingTo(null);
   };
 
   const handleTypingComplete = (id: string) => {
@@ -148,39 +790,99 @@ export const Chat = () => {
   };
 
   return (
-    <>
-      <div className="fixed bottom-2 right-2 sm:bottom-4 sm:right-4 z-50 flex flex-col items-end w-full sm:w-auto max-w-full">
-        {!isOpen && (
-          <button
-            onClick={() => setIsOpen(true)}
-            className="bg-slate-800 cursor-pointer hover:bg-slate-700 text-white rounded-full p-3 shadow-lg hover:shadow-xl transition-all duration-200 border border-slate-600"
-          >
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-            </svg>
-          </button>
-        )}
-        {isOpen && (
-          <div className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-[calc(100vw-1rem)] sm:w-[380px] md:w-[420px] lg:w-[450px] h-[calc(100vh-4rem)] sm:h-[500px] md:h-[600px] max-h-[90vh] flex flex-col overflow-hidden">
-            <ChatHeader onClose={() => setIsOpen(false)} />
-            <ChatMessages
-              messages={messages}
-              typingMessageId={typingMessageId}
-              onTypingComplete={handleTypingComplete}
-              isLoading={isLoading}
-              messagesEndRef={messagesEndRef}
-            />
-            <ChatInput
-              value={inputValue}
-              onChange={setInputValue}
-              onSend={sendMessage}
-              loading={isLoading}
-              inputRef={inputRef}
-              onKeyPress={handleKeyPress}
-            />
-          </div>
-        )}
-      </div>
-    </>
+    <I18nContext value={i18n}>
+      <ThemeContext value={chatTheme}>
+        <AnalyticsContext value={trackEvent}>
+          <LinkPolicyContext value={linkContext}>
+            {/* dir="ltr" כדי ש-position יהיה צד פיזי של המסך; חלון הצ'אט מקבל את כיוון השפה */}
+            <div
+              dir="ltr"
+              data-chat-scheme={colorScheme}
+              style={themeVariables(colorScheme === 'dark' ? chatTheme.darkColors : chatTheme.colors)}
+              className={`fixed bottom-2 sm:bottom-4 z-50 flex flex-col w-full sm:w-auto max-w-full ${chatTheme.position === 'left' ? 'left-2 sm:left-4 items-start' : 'right-2 sm:right-4 items-end'}`}
+            >
+              {!isOpen && (
+                <ChatLauncher
+                  onOpen={openChat}
+                  unreadCount={unreadCount}
+                  teaser={teaser}
+                  onDismissTeaser={() => setTeaser(null)}
+                />
+              )}
+              {isOpen && (
+                <div dir={i18n.dir} lang={i18n.locale} className="relative bg-surface rounded-2xl shadow-2xl border border-slate-200 w-[calc(100vw-1rem)] sm:w-[380px] md:w-[420px] lg:w-[450px] h-[calc(100vh-4rem)] sm:h-[500px] md:h-[600px] max-h-[90vh] flex flex-col overflow-hidden">
+                  <ChatHeader
+                    onClose={() => setIsOpen(false)}
+                    isOnline={isOnline && !connectionLost}
+                    conversations={conversations}
+                    activeConversationId={sessionId}
+                    onNewConversation={handleNewConversation}
+                    onSelectConversation={handleSelectConversation}
+                    onRenameConversation={renameConversation}
+                    onDeleteConversation={handleDeleteConversation}
+                    handoff={handoff}
+                    onRequestHandoff={chatTransport.handoff ? () => requestHandoff('user') : undefined}
+                    onEndHandoff={endHandoff}
+                    onExport={exportConversation}
+                    onPrint={printConversation}
+                    onEmailTranscript={chatTransport.sendTranscript ? emailTranscript : undefined}
+                    onImport={handleImportConversation}
+                  />
+                  <ChatMessages
+                    messages={messages}
+                    typingMessageId={typingMessageId}
+                    onTypingComplete={handleTypingComplete}
+                    onQuickReply={(text) => sendMessage(text, [])}
+                    onRetry={retryMessage}
+                    onEdit={editMessage}
+                    onRegenerate={handoff ? undefined : regenerateMessage}
+                    onFeedback={chatTransport.sendFeedback ? rateMessage : undefined}
+                    readAloudLang={readAloud ? voiceLang : undefined}
+                    isLoading={isLoading && !streamingMessageId}
+                    isLoadingHistory={isLoadingHistory}
+                    messagesEndRef={messagesEndRef}
+                  />
+                  {isLeadFormOpen && leadSettings ? (
+                    <LeadForm
+                      key={sessionId}
+                      form={leadSettings}
+                      initialValues={previousLead}
+                      onSubmit={submitLead}
+                      onSkip={leadSettings.allowSkip ? skipLead : undefined}
+                    />
+                  ) : (
+                    <ChatInput
+                      value={inputValue}
+                      onChange={(value) => {
+                        setInputValue(value);
+                        setInputNotice(null);
+                      }}
+                      onSend={() => sendMessage()}
+                      onStop={isLoading || typingMessageId ? stopResponse : undefined}
+                      inputRef={inputRef}
+                      onEscape={() => setIsOpen(false)}
+                      history={sentHistory}
+                      maxLength={maxMessageLength}
+                      attachments={pendingFiles}
+                      onAddFiles={addFiles}
+                      onRemoveAttachment={removeFile}
+                      attachmentError={attachmentError}
+                      acceptedTypes={limits.acceptedTypes}
+                      onVoiceRecorded={voiceInput ? (file) => sendMessage('', [file]) : undefined}
+                      voiceLang={voiceLang}
+                      cooldownSeconds={cooldownSeconds}
+                      notice={inputNotice}
+                    />
+                  )}
+                  {leavingTo && (
+                    <LeaveConfirmation host={leavingTo.host} onConfirm={confirmLeave} onCancel={() => setLeavingTo(null)} />
+                  )}
+                </div>
+              )}
+            </div>
+          </LinkPolicyContext>
+        </AnalyticsContext>
+      </ThemeContext>
+    </I18nContext>
   );
 };
@@ -1,34 +1,148 @@
-import React from 'react';
+import React, { useState } from 'react';
+import ConversationMenu from './ConversationMenu';
+import ExportMenu from './ExportMenu';
+import AgentAvatar from './AgentAvatar';
+import { useTheme } from '../hooks/useTheme';
+import { useI18n } from '../hooks/useI18n';
+import type { Conversation, HandoffState } from '../types/chat';
+import type { TranscriptFormat } from '../lib/transcript';
 
 interface ChatHeaderProps {
   onClose: () => void;
+  isOnline: boolean;
+  conversations: Conversation[];
+  activeConversationId: string;
+  onNewConversation: () => void;
+  onSelectConversation: (id: string) => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onDeleteConversation: (id: string) => void;
+  onExport: (format: TranscriptFormat) => void;
+  onPrint: () => void;
+  /** כשמוגדר (ה-transport תומך) - אפשר לשלוח את התמליל למייל */
+  onEmailTranscript?: (email: string) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  /** מצב ההעברה לנציג; כשפעיל - הכותרת מציגה את הנציג במקום הבוט */
+  handoff: HandoffState | null;
+  /** כשמוגדר (ה-transport תומך בנציגים) - מוצג כפתור "נציג" */
+  onRequestHandoff?: () => void;
+  onEndHandoff: () => void;
 }
 
-const ChatHeader: React.FC<ChatHeaderProps> = ({ onClose }) => (
-  <div className="bg-slate-50 border-b border-slate-200 p-3 sm:p-4 flex items-center justify-between">
-    <div className="flex items-center gap-3">
-      <div className="w-8 h-8 bg-slate-800 rounded-full flex items-center justify-center">
-        <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 24 24">
-          <path d="M12 2C6.48 2 2 6.48 2 12c0 1.54.362 2.98.97 4.29L1 23l6.71-1.97C9.02 21.64 10.46 22 12 22c5.52 0 10-4.48 10-10S17.52 2 12 2zm-1 15h-2v-2h2v2zm2.07-7.75l-.9.92C11.45 10.9 11 11.5 11 13h-2v-.5c0-1.1.45-2.1 1.17-2.83l1.24-1.26c.37-.36.59-.86.59-1.41 0-1.1-.9-2-2-2s-2 .9-2 2H6c0-2.21 1.79-4 4-4s4 1.79 4 4c0 .88-.36 1.68-.93 2.25z" />
-        </svg>
-      </div>
-      <div>
-        <h3 className="font-semibold text-slate-800 text-sm">עוזר AI</h3>
-        <div className="flex items-center gap-1.5">
-          <div className="w-2 h-2 bg-emerald-500 rounded-full" />
-          <p className="text-xs text-slate-600">מקוון</p>
+const ChatHeader: React.FC<ChatHeaderProps> = ({
+  onClose,
+  isOnline,
+  onExport,
+  onPrint,
+  onEmailTranscript,
+  onImport,
+  handoff,
+  onRequestHandoff,
+  onEndHandoff,
+  ...conversationProps
+}) => {
+  const [openMenu, setOpenMenu] = useState<'conversations' | 'export' | null>(null);
+  const toggleMenu = (menu: 'conversations' | 'export') => setOpenMenu((open) => (open === menu ? null : menu));
+  const { botName, avatarUrl, showStatus } = useTheme();
+  const { t } = useI18n();
+
+  const handoffStatus = () => {
+    if (handoff?.status === 'queued') {
+      return handoff.queuePosition ? t('queuePosition', { position: handoff.queuePosition }) : t('waitingForAgent');
+    }
+    return handoff?.status === 'requested' ? t('waitingForAgent') : t('online');
+  };
+
+  return (
+    <div className="relative bg-slate-50 border-b border-slate-200 p-3 sm:p-4 flex items-center justify-between">
+      <div className="flex items-center gap-3">
+        {handoff ? (
+          <AgentAvatar agent={handoff.agent} />
+        ) : avatarUrl ? (
+          <img src={avatarUrl} alt="" className="w-8 h-8 rounded-full object-cover" />
+        ) : (
+          <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center">
+            <svg className="w-4 h-4 text-on-primary" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M12 2C6.48 2 2 6.48 2 12c0 1.54.362 2.98.97 4.29L1 23l6.71-1.97C9.02 21.64 10.46 22 12 22c5.52 0 10-4.48 10-10S17.52 2 12 2zm-1 15h-2v-2h2v2zm2.07-7.75l-.9.92C11.45 10.9 11 11.5 11 13h-2v-.5c0-1.1.45-2.1 1.17-2.83l1.24-1.26c.37-.36.59-.86.59-1.41 0-1.1-.9-2-2-2s-2 .9-2 2H6c0-2.21 1.79-4 4-4s4 1.79 4 4c0 .88-.36 1.68-.93 2.25z" />
+            </svg>
+          </div>
+        )}
+        <div>
+          <h3 className="font-semibold text-slate-800 text-sm">{handoff ? handoff.agent?.name ?? t('agent') : botName}</h3>
+          {handoff ? (
+            <div className="flex items-center gap-1.5">
+              <div className={`w-2 h-2 rounded-full ${handoff.status === 'active' ? 'bg-emerald-500' : 'bg-amber-400 animate-pulse'}`} />
+              <p className="text-xs text-slate-600">{handoffStatus()}</p>
+            </div>
+          ) : showStatus && (
+            <div className="flex items-center gap-1.5">
+              <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-500' : 'bg-slate-400'}`} />
+              <p className="text-xs text-slate-600">{isOnline ? t('online') : t('offline')}</p>
+            </div>
+          )}
         </div>
       </div>
+      <div className="flex items-center gap-1">
+        {handoff ? (
+          <button
+            onClick={onEndHandoff}
+            title={t('endAgentChat')}
+            className="text-xs text-slate-500 hover:text-red-600 px-2 py-1 rounded-md hover:bg-slate-100 transition-colors"
+          >
+            {t('endAgentChat')}
+          </button>
+        ) : (
+          onRequestHandoff && (
+            <button
+              onClick={onRequestHandoff}
+              title={t('talkToHuman')}
+              className="text-slate-400 hover:text-slate-600 p-1 rounded-md hover:bg-slate-100 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 5.636l-3.536 3.536m0 5.656l3.536 3.536M9.172 9.172L5.636 5.636m3.536 9.192l-3.536 3.536M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-5 0a4 4 0 11-8 0 4 4 0 018 0z" />
+              </svg>
+            </button>
+          )
+        )}
+        <button
+          onClick={() => toggleMenu('export')}
+          title={t('exportConversation')}
+          className="text-slate-400 hover:text-slate-600 p-1 rounded-md hover:bg-slate-100 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+        </button>
+        <button
+          onClick={() => toggleMenu('conversations')}
+          title={t('conversations')}
+          className="text-slate-400 hover:text-slate-600 p-1 rounded-md hover:bg-slate-100 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+          </svg>
+        </button>
+        <button
+          onClick={onClose}
+          title={t('closeChat')}
+          className="text-slate-400 hover:text-slate-600 p-1 rounded-md hover:bg-slate-100 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      {openMenu === 'conversations' && <ConversationMenu {...conversationProps} onClose={() => setOpenMenu(null)} />}
+      {openMenu === 'export' && (
+        <ExportMenu
+          onExport={onExport}
+          onPrint={onPrint}
+          onEmailTranscript={onEmailTranscript}
+          onImport={onImport}
+          onClose={() => setOpenMenu(null)}
+        />
+      )}
     </div>
-    <button
-      onClick={onClose}
-      className="text-slate-400 hover:text-slate-600 p-1 rounded-md hover:bg-slate-100 transition-colors"
-    >
-      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-      </svg>
-    </button>
-  </div>
-);
+  );
+};
 
 export default ChatHeader;
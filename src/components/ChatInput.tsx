@@ -1,53 +1,219 @@
-import React from 'react';
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import AttachmentPreview from './AttachmentPreview';
+import VoiceInputButton from './VoiceInputButton';
+import { useI18n } from '../hooks/useI18n';
+import { detectDirection } from '../lib/i18n';
 
 interface ChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
-  loading: boolean;
-  inputRef: React.RefObject<HTMLInputElement | null>;
-  onKeyPress: (e: React.KeyboardEvent) => void;
+  /** כשמוגדר - מוצג כפתור עצירה (בקשה פעילה או אנימציית הקלדה) */
+  onStop?: () => void;
+  inputRef: React.RefObject<HTMLTextAreaElement | null>;
+  onEscape?: () => void;
+  /** הודעות שהמשתמש שלח בשיחה, מהישנה לחדשה - לשליפה עם החצים */
+  history: string[];
+  maxLength: number;
+  attachments: File[];
+  onAddFiles: (files: File[]) => void;
+  onRemoveAttachment: (index: number) => void;
+  attachmentError?: string | null;
+  acceptedTypes: string[];
+  /** כשמוגדר - מוצג כפתור מיקרופון */
+  onVoiceRecorded?: (file: File) => void;
+  voiceLang?: string;
+  /** הגבלת קצב: השניות שנותרו עד שאפשר לשלוח שוב */
+  cooldownSeconds?: number;
+  /** הודעה מתחת לתיבה, למשל על הודעה כפולה */
+  notice?: string | null;
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({
   value,
   onChange,
   onSend,
-  loading,
+  onStop,
   inputRef,
-  onKeyPress,
-}) => (
-  <div className="p-2 sm:p-4 border-t border-slate-200 bg-white">
-    <div className="flex gap-2 sm:gap-3 items-end">
-      <div className="flex-1 relative">
+  onEscape,
+  history,
+  maxLength,
+  attachments,
+  onAddFiles,
+  onRemoveAttachment,
+  attachmentError,
+  acceptedTypes,
+  onVoiceRecorded,
+  voiceLang = 'he-IL',
+  cooldownSeconds = 0,
+  notice,
+}) => {
+  const { t, dir } = useI18n();
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // מיקום בהיסטוריה בזמן ניווט עם החצים; null - עורכים טיוטה
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const draftRef = useRef('');
+  const isOverLimit = value.length > maxLength;
+  const canSend = (!!value.trim() || attachments.length > 0) && !isOverLimit && cooldownSeconds === 0;
+
+  // גובה התיבה גדל עם הטקסט עד max-h, ואז נגלל
+  useLayoutEffect(() => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight + textarea.offsetHeight - textarea.clientHeight}px`;
+  }, [value, inputRef]);
+
+  const recall = (index: number | null) => {
+    setHistoryIndex(index);
+    onChange(index === null ? draftRef.current : history[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // בזמן הרכבת תווים (IME) Enter מאשר את ההרכבה ולא שולח
+    if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const hasSelection = selectionStart !== selectionEnd;
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      setHistoryIndex(null);
+      onSend();
+    } else if (e.key === 'Escape') {
+      onEscape?.();
+    } else if (e.key === 'ArrowUp' && !hasSelection && !value.slice(0, selectionStart).includes('\n')) {
+      // חץ למעלה בשורה הראשונה - ההודעה הקודמת
+      if (history.length === 0 || historyIndex === 0) return;
+      e.preventDefault();
+      if (historyIndex === null) draftRef.current = value;
+      recall(historyIndex === null ? history.length - 1 : historyIndex - 1);
+    } else if (e.key === 'ArrowDown' && historyIndex !== null && !hasSelection && !value.slice(selectionEnd).includes('\n')) {
+      e.preventDefault();
+      recall(historyIndex < history.length - 1 ? historyIndex + 1 : null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) {
+      onAddFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  // הדבקת צילום מסך / קובץ מהלוח
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (e.clipboardData.files.length > 0) {
+      e.preventDefault();
+      onAddFiles(Array.from(e.clipboardData.files));
+    }
+  };
+
+  return (
+    <div
+      className={`p-2 sm:p-4 border-t bg-surface transition-colors ${isDragging ? 'border-slate-500 bg-slate-50' : 'border-slate-200'}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {attachments.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-2 pt-1.5">
+          {attachments.map((file, index) => (
+            <AttachmentPreview key={`${file.name}-${index}`} file={file} onRemove={() => onRemoveAttachment(index)} />
+          ))}
+        </div>
+      )}
+      {attachmentError && (
+        <p className="text-xs text-red-600 mb-2">
+          {attachmentError}
+        </p>
+      )}
+      {(cooldownSeconds > 0 || notice) && (
+        <p role="status" className="text-xs text-amber-700 mb-2">
+          {cooldownSeconds > 0 ? t('rateLimited', { seconds: cooldownSeconds }) : notice}
+        </p>
+      )}
+      <div className="flex gap-2 sm:gap-3 items-end">
         <input
-          dir="rtl"
-          ref={inputRef}
-          type="text"
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
-          onKeyPress={onKeyPress}
-          placeholder="הקלד הודעה..."
-          disabled={loading}
-          className="w-full border border-slate-300 hover:border-slate-400 focus:border-slate-500 focus:ring-2 focus:ring-slate-200 rounded-xl px-3 sm:px-4 py-2 sm:py-3 text-right disabled:bg-slate-50 disabled:border-slate-200 transition-all duration-200 bg-white text-sm placeholder:text-slate-400 focus:outline-none"
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={acceptedTypes.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) onAddFiles(Array.from(e.target.files));
+            e.target.value = '';
+          }}
         />
-      </div>
-      <button
-        onClick={onSend}
-        disabled={!value.trim() || loading}
-        className="bg-slate-800 hover:bg-slate-700 disabled:bg-slate-300 text-white rounded-xl px-3 sm:px-4 py-2 sm:py-3 transition-colors duration-200 flex-shrink-0 disabled:cursor-not-allowed"
-      >
-        {loading ? (
-          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-        ) : (
+        <div className="flex-1 relative">
+          <textarea
+            dir={detectDirection(value) ?? dir}
+            ref={inputRef}
+            rows={1}
+            value={value}
+            maxLength={maxLength}
+            onChange={(e) => {
+              onChange(e.target.value);
+              setHistoryIndex(null);
+            }}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            placeholder={isDragging ? t('dropPlaceholder') : t('inputPlaceholder')}
+            className="block resize-none max-h-40 overflow-y-auto w-full border border-slate-300 hover:border-slate-400 focus:border-slate-500 focus:ring-2 focus:ring-slate-200 rounded-xl px-3 sm:px-4 py-2 sm:py-3 text-start disabled:bg-slate-50 disabled:border-slate-200 transition-all duration-200 bg-surface text-sm placeholder:text-slate-400 focus:outline-none"
+          />
+        </div>
+        {onVoiceRecorded && (
+          <VoiceInputButton
+            lang={voiceLang}
+            value={value}
+            onChange={onChange}
+            onRecorded={onVoiceRecorded}
+          />
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title={t('attachFile')}
+          className="text-slate-500 hover:text-slate-700 hover:bg-slate-100 disabled:text-slate-300 rounded-xl px-2 py-2 sm:py-3 transition-colors duration-200 flex-shrink-0 disabled:cursor-not-allowed"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+          </svg>
+        </button>
+        {onStop && (
+          <button
+            onClick={onStop}
+            title={t('stopResponse')}
+            className="bg-red-600 hover:bg-red-500 text-white rounded-xl px-3 sm:px-4 py-2 sm:py-3 transition-colors duration-200 flex-shrink-0"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="2" />
+            </svg>
+          </button>
+        )}
+        <button
+          onClick={onSend}
+          disabled={!canSend}
+          className="bg-primary hover:bg-primary-hover disabled:bg-slate-300 text-on-primary rounded-xl px-3 sm:px-4 py-2 sm:py-3 transition-colors duration-200 flex-shrink-0 disabled:cursor-not-allowed"
+        >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
           </svg>
+        </button>
+      </div>
+      <div className="flex justify-center gap-2 text-xs text-slate-500 mt-2">
+        <p>{t('sendHint')}</p>
+        {value.length >= maxLength * 0.8 && (
+          <p dir="ltr" className={isOverLimit ? 'text-red-600 font-medium' : ''}>
+            {value.length}/{maxLength}
+          </p>
         )}
-      </button>
+      </div>
     </div>
-    <p className="text-xs text-slate-500 mt-2 text-center">לחץ Enter לשליחה</p>
-  </div>
-);
+  );
+};
 
 export default ChatInput;
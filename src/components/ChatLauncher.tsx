@@ -0,0 +1,57 @@
+import React from 'react';
+import { useTheme } from '../hooks/useTheme';
+import { useI18n } from '../hooks/useI18n';
+
+interface ChatLauncherProps {
+  onOpen: () => void;
+  /** הודעות בוט שהגיעו כשהחלון היה סגור */
+  unreadCount: number;
+  /** בועת פתיחה יזומה ליד הכפתור */
+  teaser: string | null;
+  onDismissTeaser: () => void;
+}
+
+const ChatLauncher: React.FC<ChatLauncherProps> = ({ onOpen, unreadCount, teaser, onDismissTeaser }) => {
+  const { botName, launcherIconUrl } = useTheme();
+  const { t, dir } = useI18n();
+
+  return (
+    <>
+      {teaser && (
+        <div dir={dir} className="relative mb-2 max-w-[260px] bg-surface border border-slate-200 rounded-2xl shadow-lg">
+          <button onClick={onOpen} className="block w-full text-start text-sm text-slate-800 px-4 py-3 pe-8">
+            {teaser}
+          </button>
+          <button
+            onClick={onDismissTeaser}
+            title={t('dismiss')}
+            className="absolute top-1.5 end-1.5 w-5 h-5 flex items-center justify-center rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100 text-sm leading-none"
+          >
+            ×
+          </button>
+        </div>
+      )}
+      <button
+        onClick={onOpen}
+        title={botName}
+        aria-label={unreadCount > 0 ? `${botName} - ${t('unreadMessages', { count: unreadCount })}` : botName}
+        className="relative bg-primary cursor-pointer hover:bg-primary-hover text-on-primary rounded-full p-3 shadow-lg hover:shadow-xl transition-all duration-200 border border-on-primary/20"
+      >
+        {launcherIconUrl ? (
+          <img src={launcherIconUrl} alt="" className="w-6 h-6 object-contain" />
+        ) : (
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+          </svg>
+        )}
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+    </>
+  );
+};
+
+export default ChatLauncher;
@@ -1,110 +1,161 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { TypingAnimation } from './TypingAnimation';
-import LinkButton from './LinkButton';
-
-export interface Message {
-  id: string;
-  text: string;
-  isUser: boolean;
-  timestamp: Date;
-  isTyping?: boolean;
-}
+import MarkdownContent from './MarkdownContent';
+import RichAttachments from './RichAttachments';
+import MessageAttachments from './MessageAttachments';
+import ReadAloudButton from './ReadAloudButton';
+import BotAvatar from './BotAvatar';
+import AgentAvatar from './AgentAvatar';
+import SendStatus from './SendStatus';
+import MessageActions from './MessageActions';
+import MessageEditor from './MessageEditor';
+import FeedbackForm from './FeedbackForm';
+import { useI18n } from '../hooks/useI18n';
+import { detectDirection } from '../lib/i18n';
+import type { Message, MessageFeedback } from '../types/chat';
 
 interface ChatMessageProps {
   message: Message;
   typingMessageId: string | null;
   onTypingComplete: (id: string) => void;
+  isLast: boolean;
+  onQuickReply: (text: string) => void;
+  onRetry: (id: string) => void;
+  /** עריכה ושליחה מחדש של הודעת משתמש */
+  onEdit?: (id: string, text: string) => void;
+  /** רק בתשובה האחרונה של הבוט */
+  onRegenerate?: (id: string) => void;
+  onFeedback?: (id: string, feedback: MessageFeedback) => void;
+  /** שפת ההקראה; כשלא מוגדר - אין כפתור הקראה */
+  readAloudLang?: string;
 }
 
-const renderTextWithLinks = (text: string) => {
-  const markdownLinkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
-  const urlRegex = /(https?:\/\/[^\s]+)/g;
-  const parts: React.ReactNode[] = [];
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  typingMessageId,
+  onTypingComplete,
+  isLast,
+  onQuickReply,
+  onRetry,
+  onEdit,
+  onRegenerate,
+  onFeedback,
+  readAloudLang,
+}) => {
+  const { t, dir, formatTime } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isCommenting, setIsCommenting] = useState(false);
+  const isBusy = message.isStreaming || message.isTyping || message.status === 'sending';
+
+  const rate = (rating: MessageFeedback['rating']) => {
+    onFeedback?.(message.id, { rating });
+    setIsCommenting(true);
+  };
 
-  while ((match = markdownLinkRegex.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      parts.push(text.slice(lastIndex, match.index));
-    }
-    const linkText = match[1];
-    const linkUrl = match[2];
-    parts.push(
-      <LinkButton key={match.index} href={linkUrl} icon="🔗">
-        {linkText}
-      </LinkButton>
+  // הודעות מערכת (נציג הצטרף / עזב וכו') - שורה ממורכזת, לא בועה
+  if (message.sender === 'system') {
+    return (
+      <div className="flex justify-center">
+        <p className="text-xs text-slate-500 bg-slate-100 rounded-full px-3 py-1 text-center">
+          {message.text} · {formatTime(message.timestamp)}
+        </p>
+      </div>
     );
-    lastIndex = markdownLinkRegex.lastIndex;
   }
 
-  if (lastIndex < text.length) {
-    const remainingText = text.slice(lastIndex);
-    const urlParts: React.ReactNode[] = [];
-    let urlLastIndex = 0;
-    let urlMatch: RegExpExecArray | null;
-    while ((urlMatch = urlRegex.exec(remainingText)) !== null) {
-      if (urlMatch.index > urlLastIndex) {
-        urlParts.push(remainingText.slice(urlLastIndex, urlMatch.index));
-      }
-      const url = urlMatch[1];
-      urlParts.push(
-        <LinkButton key={`url-${urlMatch.index}`} href={url}>
-          <span>🌐</span>
-          <span className="truncate max-w-[150px]">{url.replace(/^https?:\/\//, '')}</span>
-          <span className="text-xs opacity-60">↗</span>
-        </LinkButton>
-      );
-      urlLastIndex = urlRegex.lastIndex;
-    }
-    if (urlLastIndex < remainingText.length) {
-      urlParts.push(remainingText.slice(urlLastIndex));
-    }
-    parts.push(...urlParts);
-  }
+  const isAgent = message.sender === 'agent';
 
-  return parts.length > 0 ? parts : [text];
-};
-
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, typingMessageId, onTypingComplete }) => (
-  <div className={`flex items-start gap-3 ${message.isUser ? 'flex-row-reverse' : 'flex-row'}`}> 
-    <div
-      className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium ${message.isUser ? 'bg-slate-800 text-white' : 'bg-emerald-100 text-emerald-700 border border-emerald-200'}`}
-    >
+  return (
+    <div className={`group flex items-start gap-3 ${message.isUser ? 'flex-row-reverse' : 'flex-row'}`}>
       {message.isUser ? (
-        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-          <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
-        </svg>
+        <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-primary text-on-primary">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+          </svg>
+        </div>
+      ) : isAgent ? (
+        <AgentAvatar agent={message.agent} />
       ) : (
-        'AI'
+        <BotAvatar />
       )}
-    </div>
-    <div className={`max-w-[80%] ${message.isUser ? 'text-right' : 'text-right'}`}> 
-      <div
-        className={`relative px-4 py-3 max-w-xs sm:max-w-sm md:max-w-md ${message.isUser ? 'bg-slate-800 text-white rounded-[18px] ml-auto' : 'bg-white text-slate-800 border border-slate-200 rounded-[18px] shadow-sm mr-auto'} ${message.isUser ? 'message-tail-right' : 'message-tail-left'}`}
-      >
-        <div
-          className="text-sm leading-relaxed break-words"
-          dir="rtl"
-          style={{ wordBreak: 'break-word', overflowWrap: 'break-word', whiteSpace: 'pre-wrap', unicodeBidi: 'embed' }}
-        >
-          {message.isUser ? (
-            message.text
-          ) : message.isTyping && typingMessageId === message.id ? (
-            <TypingAnimation
-              text={message.text}
-              speed={30}
-              onComplete={() => onTypingComplete(message.id)}
+      <div className="max-w-[80%] text-start">
+        {isAgent && <p className="text-xs text-emerald-700 font-medium mb-1 px-2">{message.agent?.name ?? t('agent')}</p>}
+        {message.attachments && <MessageAttachments attachments={message.attachments} isUser={message.isUser} />}
+        {(message.text || !(message.richAttachments || message.attachments)) && (
+          <div
+            className={`relative px-4 py-3 max-w-xs sm:max-w-sm md:max-w-md ${message.isUser ? 'bg-primary text-on-primary rounded-[18px] me-auto' : `bg-surface text-slate-800 border ${isAgent ? 'border-emerald-200' : 'border-slate-200'} rounded-[18px] shadow-sm ms-auto`} ${message.isUser ? 'message-tail-right' : 'message-tail-left'}`}
+          >
+            <div
+              className="text-sm leading-relaxed break-words"
+              dir={detectDirection(message.text) ?? dir}
+              style={{ wordBreak: 'break-word', overflowWrap: 'break-word', whiteSpace: 'pre-wrap', unicodeBidi: 'embed' }}
+            >
+              {isEditing ? (
+                <MessageEditor
+                  initialText={message.text}
+                  onCancel={() => setIsEditing(false)}
+                  onSave={(text) => {
+                    setIsEditing(false);
+                    onEdit?.(message.id, text);
+                  }}
+                />
+              ) : message.isUser || isAgent ? (
+                message.text
+              ) : message.isTyping && typingMessageId === message.id ? (
+                <TypingAnimation
+                  text={message.text}
+                  speed={30}
+                  onComplete={() => onTypingComplete(message.id)}
+                />
+              ) : (
+                <>
+                  <MarkdownContent text={message.text} />
+                  {message.isStreaming && (
+                    <span className="inline-block w-1.5 h-4 bg-slate-400 align-middle ms-0.5 animate-pulse" />
+                  )}
+                </>
+              )}
+            </div>
+            {message.isIncomplete && (
+              <p className="text-xs text-amber-600 mt-2 pt-2 border-t border-slate-100">
+                ⚠️ {t('incompleteResponse')}
+              </p>
+            )}
+          </div>
+        )}
+        {/* תוכן עשיר מופיע אחרי שהטקסט סיים להיכתב */}
+        {message.richAttachments && !message.isStreaming && !(message.isTyping && typingMessageId === message.id) && (
+          <RichAttachments attachments={message.richAttachments} showQuickReplies={isLast} onQuickReply={onQuickReply} />
+        )}
+        <div className={`flex items-center gap-1 mt-1 px-2 ${message.isUser ? 'justify-end' : 'justify-start'}`}>
+          <p className="text-xs text-slate-500">
+            {formatTime(message.timestamp)}
+          </p>
+          {message.isUser && <SendStatus message={message} onRetry={onRetry} />}
+          {!message.isUser && readAloudLang && !message.isStreaming && !message.isTyping && (
+            <ReadAloudButton text={message.text} lang={readAloudLang} />
+          )}
+          {!isBusy && !isEditing && (
+            <MessageActions
+              message={message}
+              onEdit={onEdit && message.isUser && message.text ? () => setIsEditing(true) : undefined}
+              onRegenerate={onRegenerate && (() => onRegenerate(message.id))}
+              onRate={onFeedback && rate}
             />
-          ) : (
-            renderTextWithLinks(message.text)
           )}
         </div>
+        {isCommenting && (
+          <FeedbackForm
+            onClose={() => setIsCommenting(false)}
+            onSubmit={(comment) => {
+              setIsCommenting(false);
+              onFeedback?.(message.id, { rating: message.feedback?.rating ?? 'down', comment });
+            }}
+          />
+        )}
       </div>
-      <p className="text-xs text-slate-500 mt-1 px-2">
-        {message.timestamp.toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' })}
-      </p>
     </div>
-  </div>
-);
+  );
+};
 
 export default ChatMessage;
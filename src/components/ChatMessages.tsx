@@ -1,11 +1,35 @@
 import React from 'react';
-import ChatMessage, { type Message } from './ChatMessage';
+import ChatMessage from './ChatMessage';
+import BotAvatar from './BotAvatar';
+import { useI18n } from '../hooks/useI18n';
+import type { Message, MessageFeedback } from '../types/chat';
+
+// שלד טעינה בזמן שההיסטוריה נטענת מהשרת
+const HistorySkeleton: React.FC = () => (
+  <div className="space-y-3 sm:space-y-4 animate-pulse" aria-busy="true">
+    {[false, true, false].map((isUser, index) => (
+      <div key={index} className={`flex items-start gap-3 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-slate-200" />
+        <div className={`rounded-[18px] bg-slate-200 h-10 ${isUser ? 'w-1/2' : 'w-2/3'}`} />
+      </div>
+    ))}
+  </div>
+);
 
 interface ChatMessagesProps {
   messages: Message[];
   typingMessageId: string | null;
   onTypingComplete: (id: string) => void;
+  onQuickReply: (text: string) => void;
+  onRetry: (id: string) => void;
+  onEdit: (id: string, text: string) => void;
+  /** כשלא מוגדר (למשל בשיחה עם נציג) - אין יצירה מחדש */
+  onRegenerate?: (id: string) => void;
+  /** כשלא מוגדר (ה-transport לא תומך בדירוג) - כפתורי המשוב מוסתרים */
+  onFeedback?: (id: string, feedback: MessageFeedback) => void;
+  readAloudLang?: string;
   isLoading: boolean;
+  isLoadingHistory?: boolean;
   messagesEndRef: React.RefObject<HTMLDivElement | null>;
 }
 
@@ -13,32 +37,60 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({
   messages,
   typingMessageId,
   onTypingComplete,
+  onQuickReply,
+  onRetry,
+  onEdit,
+  onRegenerate,
+  onFeedback,
+  readAloudLang,
   isLoading,
+  isLoadingHistory,
   messagesEndRef,
-}) => (
-  <div className="flex-1 overflow-y-auto p-2 sm:p-4 space-y-3 sm:space-y-4 bg-slate-50/30">
-    {messages.map((message) => (
-      <ChatMessage key={message.id} message={message} typingMessageId={typingMessageId} onTypingComplete={onTypingComplete} />
-    ))}
-    {isLoading && (
-      <div className="flex items-start gap-3">
-        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-emerald-100 text-emerald-700 border border-emerald-200 flex items-center justify-center text-xs font-medium">
-          AI
-        </div>
-        <div className="bg-white rounded-[18px] px-4 py-3 border border-slate-200 shadow-sm max-w-xs sm:max-w-sm md:max-w-md mr-auto message-tail-left">
-          <div className="flex gap-1 items-center">
-            <div className="flex gap-1">
-              <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" />
-              <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
-              <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+}) => {
+  const { t } = useI18n();
+  const firstUserIndex = messages.findIndex((msg) => msg.isUser);
+  // תשובות הבוט בלבד - לא הודעות נציג או מערכת
+  const isBot = (msg: Message) => !msg.isUser && (msg.sender ?? 'bot') === 'bot';
+  const lastBotIndex = messages.reduce((last, msg, index) => (isBot(msg) ? index : last), -1);
+  // רק התשובה האחרונה ניתנת ליצירה מחדש, וברכת הפתיחה לא מדורגת
+  const isReply = (index: number) => firstUserIndex !== -1 && index > firstUserIndex;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-2 sm:p-4 space-y-3 sm:space-y-4 bg-slate-50/30">
+      {isLoadingHistory && <HistorySkeleton />}
+      {messages.map((message, index) => (
+        <ChatMessage
+          key={message.id}
+          message={message}
+          typingMessageId={typingMessageId}
+          onTypingComplete={onTypingComplete}
+          isLast={index === messages.length - 1}
+          onQuickReply={onQuickReply}
+          onRetry={onRetry}
+          onEdit={message.isUser ? onEdit : undefined}
+          onRegenerate={index === lastBotIndex && isReply(index) && !isLoading ? onRegenerate : undefined}
+          onFeedback={isBot(message) && isReply(index) ? onFeedback : undefined}
+          readAloudLang={readAloudLang}
+        />
+      ))}
+      {isLoading && (
+        <div className="flex items-start gap-3">
+          <BotAvatar />
+          <div className="bg-surface rounded-[18px] px-4 py-3 border border-slate-200 shadow-sm max-w-xs sm:max-w-sm md:max-w-md ms-auto message-tail-left">
+            <div className="flex gap-1 items-center">
+              <div className="flex gap-1">
+                <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" />
+                <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+                <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+              </div>
+              <span className="text-sm text-slate-600 ms-2">{t('typing')}</span>
             </div>
-            <span className="text-sm text-slate-600 mr-2">מקליד...</span>
           </div>
         </div>
-      </div>
-    )}
-    <div ref={messagesEndRef} />
-  </div>
-);
+      )}
+      <div ref={messagesEndRef} />
+    </div>
+  );
+};
 
 export default ChatMessages;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { Conversation } from '../types/chat';
+import { getConversationTitle } from '../hooks/useConversations';
+import { useI18n } from '../hooks/useI18n';
+
+interface ConversationMenuProps {
+  conversations: Conversation[];
+  activeConversationId: string;
+  onNewConversation: () => void;
+  onSelectConversation: (id: string) => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onDeleteConversation: (id: string) => void;
+  onClose: () => void;
+}
+
+const ConversationMenu: React.FC<ConversationMenuProps> = ({
+  conversations,
+  activeConversationId,
+  onNewConversation,
+  onSelectConversation,
+  onRenameConversation,
+  onDeleteConversation,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const { t, formatDateTime } = useI18n();
+
+  const sorted = [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditValue(getConversationTitle(conversation, t('newConversation')));
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRenameConversation(editingId, editValue);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="absolute inset-x-0 top-full z-20 bg-surface border-b border-slate-200 shadow-lg max-h-80 overflow-y-auto">
+      <button
+        onClick={() => {
+          onNewConversation();
+          onClose();
+        }}
+        className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium text-slate-800 hover:bg-slate-50 border-b border-slate-100"
+      >
+        <span className="text-lg leading-none">+</span>
+        <span>{t('newConversation')}</span>
+      </button>
+      <ul>
+        {sorted.map((conversation) => (
+          <li
+            key={conversation.id}
+            className={`group flex items-center gap-2 px-4 py-2 ${conversation.id === activeConversationId ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 border border-slate-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-slate-500"
+              />
+            ) : (
+              <button
+                onClick={() => {
+                  onSelectConversation(conversation.id);
+                  onClose();
+                }}
+                className="flex-1 min-w-0 text-start"
+              >
+                <p className="text-sm text-slate-800 truncate">{getConversationTitle(conversation, t('newConversation'))}</p>
+                <p className="text-xs text-slate-500">{formatDateTime(conversation.updatedAt)}</p>
+              </button>
+            )}
+            <button
+              onClick={() => startRename(conversation)}
+              title={t('renameConversation')}
+              className="text-slate-400 hover:text-slate-600 p-1 rounded-md opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            >
+              ✏️
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(t('confirmDeleteConversation'))) onDeleteConversation(conversation.id);
+              }}
+              title={t('deleteConversation')}
+              className="text-slate-400 hover:text-red-600 p-1 rounded-md opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            >
+              🗑️
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ConversationMenu;
@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import type { TranscriptFormat } from '../lib/transcript';
+
+interface ExportMenuProps {
+  onExport: (format: TranscriptFormat) => void;
+  onPrint: () => void;
+  /** כשמוגדר - מוצג טופס שליחת התמליל למייל */
+  onEmailTranscript?: (email: string) => Promise<void>;
+  /** ייבוא קובץ JSON שיוצא מהצ'אט כשיחה נוספת */
+  onImport: (file: File) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS: { format: TranscriptFormat; label: MessageKey }[] = [
+  { format: 'txt', label: 'exportText' },
+  { format: 'md', label: 'exportMarkdown' },
+  { format: 'json', label: 'exportJson' },
+  { format: 'html', label: 'exportHtml' },
+];
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type EmailStatus = 'idle' | 'sending' | 'sent' | 'failed' | 'invalid';
+
+const itemClass = 'w-full flex items-center gap-2 px-4 py-2 text-sm text-slate-800 hover:bg-slate-50 text-start';
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, onPrint, onEmailTranscript, onImport, onClose }) => {
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<EmailStatus>('idle');
+  const [importFailed, setImportFailed] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importFile = async (file: File) => {
+    setImportFailed(false);
+    try {
+      await onImport(file);
+      onClose();
+    } catch (error) {
+      console.error('Error importing transcript:', error);
+      setImportFailed(true);
+    }
+  };
+
+  const sendEmail = async () => {
+    const address = email.trim();
+    if (!EMAIL_REGEX.test(address)) {
+      setStatus('invalid');
+      return;
+    }
+    setStatus('sending');
+    try {
+      await onEmailTranscript!(address);
+      setStatus('sent');
+    } catch (error) {
+      console.error('Error sending transcript:', error);
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <div className="absolute inset-x-0 top-full z-20 bg-surface border-b border-slate-200 shadow-lg">
+      <p className="px-4 pt-3 pb-1 text-xs font-medium text-slate-500">{t('exportConversation')}</p>
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => {
+            onExport(format);
+            onClose();
+          }}
+          className={itemClass}
+        >
+          <span>⬇️</span>
+          <span>{t(label)}</span>
+        </button>
+      ))}
+      <button
+        onClick={() => {
+          onPrint();
+          onClose();
+        }}
+        className={itemClass}
+      >
+        <span>🖨️</span>
+        <span>{t('printTranscript')}</span>
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} className={itemClass}>
+        <span>⬆️</span>
+        <span>{t('importConversation')}</span>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) importFile(file);
+        }}
+      />
+      {importFailed && <p className="px-4 pb-2 text-xs text-red-600">{t('importFailed')}</p>}
+      {onEmailTranscript && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            sendEmail();
+          }}
+          className="border-t border-slate-100 px-4 py-3 space-y-1.5"
+        >
+          <label htmlFor="chat-transcript-email" className="block text-xs font-medium text-slate-500">
+            {t('emailTranscript')}
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="chat-transcript-email"
+              type="email"
+              dir="ltr"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                if (status !== 'sending') setStatus('idle');
+              }}
+              placeholder={t('emailPlaceholder')}
+              className="flex-1 min-w-0 border border-slate-300 rounded-lg px-2 py-1 text-sm bg-surface text-slate-800 focus:outline-none focus:border-slate-500"
+            />
+            <button
+              type="submit"
+              disabled={!email.trim() || status === 'sending'}
+              className="bg-primary hover:bg-primary-hover disabled:bg-slate-300 text-on-primary rounded-lg px-3 py-1 text-sm"
+            >
+              {status === 'sending' ? t('sending') : t('send')}
+            </button>
+          </div>
+          {status === 'invalid' && <p className="text-xs text-red-600">{t('invalidEmail')}</p>}
+          {status === 'failed' && <p className="text-xs text-red-600">{t('transcriptFailed')}</p>}
+          {status === 'sent' && <p className="text-xs text-emerald-600">{t('transcriptSent', { email: email.trim() })}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
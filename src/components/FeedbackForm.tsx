@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface FeedbackFormProps {
+  onSubmit: (comment: string) => void;
+  onClose: () => void;
+}
+
+// הערה אופציונלית אחרי דירוג תשובה
+const FeedbackForm: React.FC<FeedbackFormProps> = ({ onSubmit, onClose }) => {
+  const { t } = useI18n();
+  const [comment, setComment] = useState('');
+
+  return (
+    <div className="mt-1 flex items-center gap-2">
+      <input
+        autoFocus
+        dir="auto"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && comment.trim()) onSubmit(comment.trim());
+          if (e.key === 'Escape') onClose();
+        }}
+        placeholder={t('feedbackPlaceholder')}
+        className="flex-1 min-w-0 border border-slate-300 rounded-lg px-2 py-1 text-xs bg-surface text-slate-800 focus:outline-none focus:border-slate-500"
+      />
+      <button
+        onClick={() => onSubmit(comment.trim())}
+        disabled={!comment.trim()}
+        className="text-xs font-medium text-slate-700 hover:text-slate-900 disabled:text-slate-300"
+      >
+        {t('send')}
+      </button>
+      <button onClick={onClose} title={t('cancel')} className="text-xs text-slate-400 hover:text-slate-600">
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default FeedbackForm;
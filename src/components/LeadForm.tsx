@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/i18n';
+import { validateLead, type LeadField, type LeadForm as LeadFormSettings, type LeadInfo } from '../lib/lead';
+
+interface LeadFormProps {
+  form: LeadFormSettings;
+  /** ערכים התחלתיים, למשל מהשיחה הקודמת */
+  initialValues?: LeadInfo;
+  onSubmit: (lead: LeadInfo) => void;
+  /** כשמוגדר - מוצג כפתור "דלג" */
+  onSkip?: () => void;
+}
+
+const FIELD_LABELS: Record<LeadField, MessageKey> = {
+  name: 'leadName',
+  phone: 'leadPhone',
+  company: 'leadCompany',
+  email: 'leadEmail',
+  topic: 'leadTopic',
+};
+
+const INPUT_PROPS: Partial<Record<LeadField, React.InputHTMLAttributes<HTMLInputElement>>> = {
+  name: { autoComplete: 'name' },
+  phone: { type: 'tel', dir: 'ltr', inputMode: 'tel', autoComplete: 'tel', placeholder: '050-1234567' },
+  company: { autoComplete: 'organization' },
+  email: { type: 'email', dir: 'ltr', autoComplete: 'email' },
+};
+
+const inputClass =
+  'w-full border rounded-lg px-3 py-1.5 text-sm bg-surface text-slate-800 text-start focus:outline-none focus:border-slate-500';
+
+// טופס פרטי קשר - לפני תחילת השיחה או כשהבוט מבקש; מחליף את תיבת ההקלדה עד שמולא או דולג
+const LeadForm: React.FC<LeadFormProps> = ({ form, initialValues = {}, onSubmit, onSkip }) => {
+  const { t } = useI18n();
+  const [values, setValues] = useState<LeadInfo>(initialValues);
+  const [errors, setErrors] = useState<Partial<Record<LeadField, string>>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = validateLead(values, form, t);
+    setErrors(result.errors);
+    if (result.isValid) onSubmit(result.lead);
+  };
+
+  const setValue = (field: LeadField, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="p-3 sm:p-4 border-t border-slate-200 bg-surface space-y-2 max-h-[60%] overflow-y-auto">
+      <p className="text-sm font-medium text-slate-800">{form.title ?? t('leadFormTitle')}</p>
+      {form.fields.map(({ name, required, label }) => {
+        const id = `chat-lead-${name}`;
+        const error = errors[name];
+        const fieldClass = `${inputClass} ${error ? 'border-red-400' : 'border-slate-300'}`;
+        return (
+          <div key={name}>
+            <label htmlFor={id} className="block text-xs text-slate-600 mb-0.5">
+              {label ?? t(FIELD_LABELS[name])}
+              {required && <span className="text-red-500"> *</span>}
+            </label>
+            {name === 'topic' && form.topics.length > 0 ? (
+              <select id={id} value={values.topic ?? ''} onChange={(e) => setValue('topic', e.target.value)} className={fieldClass}>
+                <option value="">{t('leadTopicPlaceholder')}</option>
+                {form.topics.map((topic) => (
+                  <option key={topic} value={topic}>
+                    {topic}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id={id}
+                {...INPUT_PROPS[name]}
+                value={values[name] ?? ''}
+                onChange={(e) => setValue(name, e.target.value)}
+                aria-invalid={!!error}
+                className={fieldClass}
+              />
+            )}
+            {error && <p className="text-xs text-red-600 mt-0.5">{error}</p>}
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          type="submit"
+          className="flex-1 bg-primary hover:bg-primary-hover text-on-primary rounded-lg px-3 py-2 text-sm font-medium transition-colors"
+        >
+          {t('leadSubmit')}
+        </button>
+        {onSkip && (
+          <button type="button" onClick={onSkip} className="text-sm text-slate-500 hover:text-slate-700 px-3 py-2">
+            {t('leadSkip')}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default LeadForm;
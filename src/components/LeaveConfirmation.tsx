@@ -0,0 +1,53 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface LeaveConfirmationProps {
+  host: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// "אתם עוברים ל-X" - מוצג מעל חלון הצ'אט לפני קישור חיצוני מהבוט
+const LeaveConfirmation: React.FC<LeaveConfirmationProps> = ({ host, onConfirm, onCancel }) => {
+  const { t } = useI18n();
+
+  return (
+    <div
+      className="absolute inset-0 z-10 flex items-center justify-center bg-slate-900/40 p-4"
+      onClick={onCancel}
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+    >
+      <div
+        role="alertdialog"
+        aria-labelledby="chat-leave-title"
+        className="bg-surface rounded-2xl shadow-xl border border-slate-200 p-4 w-full max-w-xs"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="chat-leave-title" className="font-semibold text-slate-800 text-sm">
+          {t('leavingSite')}
+        </h3>
+        {/* הדומיין מבודד (FSI/PDI) כדי שלא יתהפך בתוך משפט בעברית */}
+        <p className="text-sm text-slate-600 mt-2">
+          {t('leavingSiteHint', { host: `\u2068${host}\u2069` })}
+        </p>
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            onClick={onCancel}
+            className="text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg px-3 py-1.5"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            autoFocus
+            onClick={onConfirm}
+            className="text-sm bg-primary hover:bg-primary-hover text-on-primary rounded-lg px-3 py-1.5"
+          >
+            {t('continue')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeaveConfirmation;
@@ -5,21 +5,24 @@ interface LinkButtonProps {
   icon?: string;
   children: React.ReactNode;
   key?: string | number;
+  /** קישור פנימי או mailto/tel - באותו טאב */
+  sameTab?: boolean;
+  onClick?: (e: React.MouseEvent<HTMLAnchorElement>) => void;
 }
 
-const LinkButton: React.FC<LinkButtonProps> = ({ href, icon, children, ...props }) => {
+const LinkButton: React.FC<LinkButtonProps> = ({ href, icon, children, sameTab, ...props }) => {
   return (
       <a
         href={href}
-        target="_blank"
-        rel="noopener noreferrer"
+        target={sameTab ? undefined : '_blank'}
+        rel={sameTab ? undefined : 'noopener noreferrer'}
         className="inline-flex items-center py-[0.25rem]"
         {...props}
       >
         <div className='inline-flex items-center gap-1 bg-blue-50 hover:bg-blue-100 text-blue-600 hover:text-blue-700 px-3 py-1 rounded-full text-sm font-medium border border-blue-200 hover:border-blue-300 transition-all duration-200 mx-1 shadow-sm hover:shadow-md transform hover:scale-105'>
           <span>{icon}</span>
           <span>{children}</span>
-          <span className="text-xs opacity-60">↗</span>
+          {!sameTab && <span className="text-xs opacity-60">↗</span>}
         </div>
       </a>
   );
@@ -0,0 +1,153 @@
+import React, { useMemo } from 'react';
+import BotLink from './BotLink';
+import { parseMarkdown, type BlockNode, type InlineNode } from '../lib/markdown';
+
+interface MarkdownContentProps {
+  text?: string;
+  /** עץ מוכן (למשל חלקי בזמן אנימציית הקלדה) - גובר על text */
+  blocks?: BlockNode[];
+}
+
+const HEADING_CLASSES = ['text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'strong':
+        return (
+          <strong key={index} className="font-semibold">
+            {renderInline(node.children)}
+          </strong>
+        );
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'code':
+        // מק"טים וקוד נשארים LTR ומבודדים מהטקסט העברי סביבם
+        return (
+          <code
+            key={index}
+            dir="ltr"
+            className="bg-slate-100 text-slate-800 rounded px-1 py-0.5 font-mono text-[0.85em] [unicode-bidi:isolate]"
+          >
+            {node.value}
+          </code>
+        );
+      case 'link':
+        return node.bare ? (
+          <BotLink key={index} href={node.href} icon="🌐">
+            <bdi className="inline-block truncate max-w-[150px] align-bottom" dir="ltr">
+              {node.href.replace(/^https?:\/\//, '')}
+            </bdi>
+          </BotLink>
+        ) : (
+          <BotLink key={index} href={node.href} icon="🔗">
+            {renderInline(node.children)}
+          </BotLink>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+const renderBlocks = (blocks: BlockNode[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={index} dir="auto" className="my-1 first:mt-0 last:mb-0">
+            {renderInline(block.children)}
+          </p>
+        );
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+        return (
+          <Tag key={index} dir="auto" className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} mt-2 mb-1 first:mt-0`}>
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} dir="auto">
+            {renderBlocks(item)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal ps-5 my-1 space-y-0.5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="list-disc ps-5 my-1 space-y-0.5">
+            {items}
+          </ul>
+        );
+      }
+      case 'codeBlock':
+        return (
+          <pre
+            key={index}
+            dir="ltr"
+            className="bg-slate-100 text-slate-800 rounded-lg p-2 my-1 overflow-x-auto text-xs text-left font-mono"
+          >
+            <code>{block.value}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="border-s-4 border-slate-300 ps-3 my-1 text-slate-600">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto my-1">
+            <table className="min-w-full text-xs border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      dir="auto"
+                      style={{ textAlign: block.align[column] ?? 'start' }}
+                      className="border border-slate-200 bg-slate-50 px-2 py-1 font-semibold"
+                    >
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td
+                        key={column}
+                        dir="auto"
+                        style={{ textAlign: block.align[column] ?? 'start' }}
+                        className="border border-slate-200 px-2 py-1"
+                      >
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'thematicBreak':
+        return <hr key={index} className="my-2 border-slate-200" />;
+    }
+  });
+
+// רינדור Markdown בטוח לצמתי React - בלי dangerouslySetInnerHTML
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text = '', blocks }) => {
+  const parsed = useMemo(() => blocks ?? parseMarkdown(text), [blocks, text]);
+  return <>{renderBlocks(parsed)}</>;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { parseMarkdown, toPlainText } from '../lib/markdown';
+import type { Message, MessageFeedback } from '../types/chat';
+
+interface MessageActionsProps {
+  message: Message;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  onRate?: (rating: MessageFeedback['rating']) => void;
+}
+
+const actionClass = 'text-xs px-1 rounded transition-colors text-slate-400 hover:text-slate-600';
+
+// סרגל הפעולות של הודעה - מופיע במעבר עכבר, הדירוג שנבחר נשאר גלוי
+const MessageActions: React.FC<MessageActionsProps> = ({ message, onEdit, onRegenerate, onRate }) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copy = () => {
+    const text = message.isUser ? message.text : toPlainText(parseMarkdown(message.text));
+    navigator.clipboard
+      ?.writeText(text)
+      .then(() => setCopied(true))
+      .catch((error) => console.error('Error copying message:', error));
+  };
+
+  const rating = message.feedback?.rating;
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        {message.text && (
+          <button onClick={copy} title={copied ? t('copied') : t('copy')} className={actionClass}>
+            {copied ? '✓' : '📋'}
+          </button>
+        )}
+        {onEdit && (
+          <button onClick={onEdit} title={t('edit')} className={actionClass}>
+            ✏️
+          </button>
+        )}
+        {onRegenerate && (
+          <button onClick={onRegenerate} title={t('regenerate')} className={actionClass}>
+            🔄
+          </button>
+        )}
+      </div>
+      {onRate &&
+        (['up', 'down'] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => onRate(value)}
+            title={value === 'up' ? t('helpful') : t('notHelpful')}
+            aria-pressed={rating === value}
+            className={`${actionClass} ${rating === value ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100 grayscale'}`}
+          >
+            {value === 'up' ? '👍' : '👎'}
+          </button>
+        ))}
+    </div>
+  );
+};
+
+export default MessageActions;
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { FileAttachment } from '../types/chat';
+import { useI18n } from '../hooks/useI18n';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { usePolicyLink } from '../hooks/usePolicyLink';
+import { formatFileSize, isImage } from '../lib/fileAttachments';
+
+interface MessageAttachmentsProps {
+  attachments: FileAttachment[];
+  isUser: boolean;
+}
+
+const AttachmentItem: React.FC<{ attachment: FileAttachment; isUser: boolean }> = ({ attachment, isUser }) => {
+  const { t } = useI18n();
+  // קובץ שנשמר ושוחזר מאחסון מגיע בלי תוכן - אז נשארת רק הכתובת, אם יש
+  const blob = attachment.blob instanceof Blob ? attachment.blob : undefined;
+  const objectUrl = useObjectUrl(blob);
+  // קובץ מהבוט עובר את מדיניות הקישורים; רק blob: מקומי של קובץ שהמשתמש צירף לא נבדק
+  const remote = usePolicyLink(blob ? undefined : attachment.url);
+  const href = blob ? objectUrl : remote?.href;
+  // תמונה ואודיו נטענים רק מ-http(s) מותר - לא mailto/tel
+  const mediaSrc = remote?.action === 'contact' ? undefined : href;
+  const onClick = remote?.onClick;
+
+  if (attachment.mimeType.startsWith('audio/') && mediaSrc) {
+    return <audio controls src={mediaSrc} className="max-w-[240px] h-10" />;
+  }
+
+  if (isImage(attachment) && mediaSrc) {
+    return (
+      <a href={mediaSrc} target="_blank" rel="noopener noreferrer" onClick={onClick} className="block">
+        <img
+          src={mediaSrc}
+          alt={attachment.name}
+          loading="lazy"
+          className="max-h-40 max-w-[200px] rounded-xl border border-slate-200 object-cover"
+        />
+      </a>
+    );
+  }
+
+  const chipClass = `flex items-center gap-2 rounded-xl px-3 py-2 text-sm border max-w-[220px] ${isUser ? 'bg-primary-hover border-on-primary/20 text-on-primary' : 'bg-surface border-slate-200 text-slate-800'}`;
+
+  if (!blob && !remote) {
+    return (
+      <span className={`${chipClass} opacity-70`} title={t('fileUnavailable')}>
+        <span>📄</span>
+        <span className="truncate" dir="auto">{attachment.name}</span>
+        <span className="text-xs opacity-60 flex-shrink-0">{t('fileUnavailable')}</span>
+      </span>
+    );
+  }
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      download={blob ? attachment.name : undefined}
+      onClick={onClick}
+      className={chipClass}
+    >
+      <span>📄</span>
+      <span className="truncate" dir="auto">{attachment.name}</span>
+      {attachment.size !== undefined && (
+        <span className="text-xs opacity-60 flex-shrink-0">{formatFileSize(attachment.size)}</span>
+      )}
+    </a>
+  );
+};
+
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments, isUser }) => (
+  <div className={`flex flex-wrap gap-2 mb-1 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    {attachments.map((attachment) => (
+      <AttachmentItem key={attachment.id} attachment={attachment} isUser={isUser} />
+    ))}
+  </div>
+);
+
+export default MessageAttachments;
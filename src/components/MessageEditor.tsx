@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { detectDirection } from '../lib/i18n';
+
+interface MessageEditorProps {
+  initialText: string;
+  onSave: (text: string) => void;
+  onCancel: () => void;
+}
+
+// עריכת הודעת משתמש בתוך הבועה - שמירה שולחת אותה מחדש
+const MessageEditor: React.FC<MessageEditorProps> = ({ initialText, onSave, onCancel }) => {
+  const { t, dir } = useI18n();
+  const [text, setText] = useState(initialText);
+  const canSave = !!text.trim() && text !== initialText;
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        autoFocus
+        dir={detectDirection(text) ?? dir}
+        value={text}
+        rows={Math.min(6, text.split('\n').length)}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            if (canSave) onSave(text);
+          } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            onCancel();
+          }
+        }}
+        className="block w-full min-w-48 resize-none rounded-lg bg-surface text-slate-800 px-2 py-1 text-sm focus:outline-none"
+      />
+      <div className="flex justify-end gap-2 text-xs">
+        <button onClick={onCancel} className="px-2 py-1 rounded-md hover:bg-on-primary/10">
+          {t('cancel')}
+        </button>
+        <button
+          onClick={() => onSave(text)}
+          disabled={!canSave}
+          className="px-2 py-1 rounded-md bg-on-primary text-primary font-medium disabled:opacity-50"
+        >
+          {t('saveAndResend')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageEditor;
@@ -0,0 +1,39 @@
+import React from 'react';
+import BotLink from './BotLink';
+import { useI18n } from '../hooks/useI18n';
+import { usePolicyLink } from '../hooks/usePolicyLink';
+import type { ProductCard } from '../types/chat';
+
+interface ProductCardViewProps {
+  card: ProductCard;
+  className?: string;
+}
+
+const ProductCardView: React.FC<ProductCardViewProps> = ({ card, className = '' }) => {
+  const { t } = useI18n();
+  // התמונה מגיעה מהבוט - נטענת רק מכתובת http(s) שמדיניות הקישורים מאשרת
+  const image = usePolicyLink(card.imageUrl);
+  const imageSrc = image?.action === 'contact' ? undefined : image?.href;
+
+  return (
+    <div className={`bg-surface border border-slate-200 rounded-2xl shadow-sm overflow-hidden flex flex-col ${className}`}>
+      {imageSrc && (
+        <img src={imageSrc} alt={card.title} loading="lazy" className="w-full h-32 object-cover bg-slate-100" />
+      )}
+      <div className="p-3 flex flex-col gap-1 flex-1">
+        <h4 dir="auto" className="font-semibold text-slate-800 text-sm">{card.title}</h4>
+        {card.subtitle && <p dir="auto" className="text-xs text-slate-600">{card.subtitle}</p>}
+        {card.price && <p className="text-sm font-semibold text-emerald-700 mt-auto pt-1">{card.price}</p>}
+        {card.url && (
+          <div className="pt-1">
+            <BotLink href={card.url} icon="🔗">
+              {card.buttonLabel ?? t('cardDetails')}
+            </BotLink>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductCardView;
@@ -0,0 +1,17 @@
+import React from 'react';
+import ProductCardView from './ProductCardView';
+import type { ProductCard } from '../types/chat';
+
+interface ProductCarouselProps {
+  cards: ProductCard[];
+}
+
+const ProductCarousel: React.FC<ProductCarouselProps> = ({ cards }) => (
+  <div className="flex gap-2 overflow-x-auto snap-x snap-mandatory pb-2 -mx-1 px-1">
+    {cards.map((card, index) => (
+      <ProductCardView key={index} card={card} className="w-48 flex-shrink-0 snap-start" />
+    ))}
+  </div>
+);
+
+export default ProductCarousel;
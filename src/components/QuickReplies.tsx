@@ -0,0 +1,23 @@
+import React from 'react';
+import type { QuickReply } from '../types/chat';
+
+interface QuickRepliesProps {
+  replies: QuickReply[];
+  onSelect: (text: string) => void;
+}
+
+const QuickReplies: React.FC<QuickRepliesProps> = ({ replies, onSelect }) => (
+  <div className="flex flex-wrap gap-2 mt-2">
+    {replies.map((reply, index) => (
+      <button
+        key={index}
+        onClick={() => onSelect(reply.value ?? reply.label)}
+        className="bg-surface hover:bg-primary text-slate-800 hover:text-on-primary border border-slate-300 hover:border-primary rounded-full px-3 py-1.5 text-sm transition-colors duration-200"
+      >
+        {reply.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default QuickReplies;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis';
+import { useI18n } from '../hooks/useI18n';
+import { parseMarkdown, toPlainText } from '../lib/markdown';
+
+interface ReadAloudButtonProps {
+  text: string;
+  lang: string;
+}
+
+// הקראת תשובת הבוט - מוסתר בדפדפנים בלי speechSynthesis
+const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({ text, lang }) => {
+  const { isSupported, isSpeaking, speak, cancel } = useSpeechSynthesis(lang);
+  const { t } = useI18n();
+
+  if (!isSupported || !text.trim()) return null;
+
+  return (
+    <button
+      onClick={() => (isSpeaking ? cancel() : speak(toPlainText(parseMarkdown(text))))}
+      title={isSpeaking ? t('stopReading') : t('readAloud')}
+      className={`text-xs px-1 rounded transition-colors ${isSpeaking ? 'text-emerald-600' : 'text-slate-400 hover:text-slate-600'}`}
+    >
+      {isSpeaking ? '⏹' : '🔊'}
+    </button>
+  );
+};
+
+export default ReadAloudButton;
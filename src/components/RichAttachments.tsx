@@ -0,0 +1,31 @@
+import React from 'react';
+import QuickReplies from './QuickReplies';
+import ProductCardView from './ProductCardView';
+import ProductCarousel from './ProductCarousel';
+import type { RichAttachment } from '../types/chat';
+
+interface RichAttachmentsProps {
+  attachments: RichAttachment[];
+  /** כפתורי תשובה מהירה מוצגים רק בהודעה האחרונה */
+  showQuickReplies: boolean;
+  onQuickReply: (text: string) => void;
+}
+
+const RichAttachments: React.FC<RichAttachmentsProps> = ({ attachments, showQuickReplies, onQuickReply }) => (
+  <div className="mt-2 space-y-2">
+    {attachments.map((attachment, index) => {
+      switch (attachment.type) {
+        case 'quickReplies':
+          return showQuickReplies ? (
+            <QuickReplies key={index} replies={attachment.replies} onSelect={onQuickReply} />
+          ) : null;
+        case 'card':
+          return <ProductCardView key={index} card={attachment.card} className="max-w-[240px]" />;
+        case 'carousel':
+          return <ProductCarousel key={index} cards={attachment.cards} />;
+      }
+    })}
+  </div>
+);
+
+export default RichAttachments;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import type { MessageKey } from '../lib/i18n';
+import type { Message, SendFailureReason } from '../types/chat';
+
+const FAILURE_MESSAGES: Record<SendFailureReason, MessageKey> = {
+  network: 'errorNetwork',
+  timeout: 'errorTimeout',
+  server: 'errorServer',
+  request: 'errorRequest',
+  response: 'errorResponse',
+  cancelled: 'errorCancelled',
+  verification: 'errorVerification',
+};
+
+interface SendStatusProps {
+  message: Message;
+  onRetry: (id: string) => void;
+}
+
+// מצב השליחה של הודעת משתמש, עם כפתור ניסיון חוזר כשהשליחה נכשלה
+const SendStatus: React.FC<SendStatusProps> = ({ message, onRetry }) => {
+  const { t } = useI18n();
+  const isOnline = useOnlineStatus();
+
+  switch (message.status) {
+    case 'sending':
+      return <span className="text-xs text-slate-400">{t('sending')}</span>;
+    case 'queued':
+      return <span className="text-xs text-amber-600">{isOnline ? t('queued') : t('queuedOffline')}</span>;
+    case 'sent':
+      return (
+        <span className="text-xs text-slate-400" title={t('sent')}>
+          ✓
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="flex items-center gap-1 text-xs text-red-600">
+          <span>⚠️ {message.failureReason ? t(FAILURE_MESSAGES[message.failureReason]) : t('sendFailed')}</span>
+          <button onClick={() => onRetry(message.id)} className="font-medium underline hover:text-red-700">
+            {t('retry')}
+          </button>
+        </span>
+      );
+    default:
+      return null;
+  }
+};
+
+export default SendStatus;
@@ -1,5 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import LinkButton from './LinkButton';
+import React, { useState, useEffect, useMemo } from 'react';
+import MarkdownContent from './MarkdownContent';
+import { useI18n } from '../hooks/useI18n';
+import { parseMarkdown, truncateBlocks, visibleLength } from '../lib/markdown';
 
 interface TypingAnimationProps {
   text: string;
@@ -7,85 +9,20 @@ interface TypingAnimationProps {
   onComplete?: () => void;
 }
 
-interface ParsedElement {
-  type: 'text' | 'link';
-  content: string;
-  linkText?: string;
-  linkUrl?: string;
-  startIndex: number;
-  endIndex: number;
-  displayStartIndex: number; // מיקום ההתחלה למטרות התצוגה
-  displayLength: number; // אורך הטקסט שצריך להציג (בלי markdown)
-}
-
-// פונקציה לפרסור הטקסט מראש ויצירת רשימת אלמנטים
-const parseTextElements = (text: string): ParsedElement[] => {
-  const elements: ParsedElement[] = [];
-  const markdownLinkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
-  
-  let lastIndex = 0;
-  let displayIndex = 0; // מונה לתצוגה (בלי markdown)
-  let match;
-  
-  while ((match = markdownLinkRegex.exec(text)) !== null) {
-    // טקסט רגיל לפני הלינק
-    if (match.index > lastIndex) {
-      const textContent = text.slice(lastIndex, match.index);
-      elements.push({
-        type: 'text',
-        content: textContent,
-        startIndex: lastIndex,
-        endIndex: match.index,
-        displayStartIndex: displayIndex,
-        displayLength: textContent.length
-      });
-      displayIndex += textContent.length;
-    }
-    
-    // לינק - רק אורך הטקסט הנראה
-    const linkText = match[1];
-    elements.push({
-      type: 'link',
-      content: match[0], // הטקסט המלא [text](url)
-      linkText: linkText,
-      linkUrl: match[2],
-      startIndex: match.index,
-      endIndex: match.index + match[0].length,
-      displayStartIndex: displayIndex,
-      displayLength: linkText.length // רק אורך הטקסט הנראה!
-    });
-    displayIndex += linkText.length;
-    
-    lastIndex = match.index + match[0].length;
-  }
-  
-  // שארית הטקסט
-  if (lastIndex < text.length) {
-    const textContent = text.slice(lastIndex);
-    elements.push({
-      type: 'text',
-      content: textContent,
-      startIndex: lastIndex,
-      endIndex: text.length,
-      displayStartIndex: displayIndex,
-      displayLength: textContent.length
-    });
-  }
-  
-  return elements;
-};
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
 
-export const TypingAnimation: React.FC<TypingAnimationProps> = ({ 
-  text, 
-  speed = 30, 
+export const TypingAnimation: React.FC<TypingAnimationProps> = ({
+  text,
+  speed = 30,
   onComplete
 }) => {
-  const [displayIndex, setDisplayIndex] = useState(0);
+  const { t } = useI18n();
+  // אותו עץ שמשמש לרינדור הסופי - קישורים וטבלאות לא "קופצים" בסוף האנימציה
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  const totalDisplayLength = useMemo(() => visibleLength(blocks), [blocks]);
+  const [displayIndex, setDisplayIndex] = useState(() => (prefersReducedMotion() ? totalDisplayLength : 0));
   const [isComplete, setIsComplete] = useState(false);
-  const [parsedElements] = useState(() => parseTextElements(text));
-  
-  // חישוב האורך הכולל למטרות תצוגה (בלי markdown)
-  const totalDisplayLength = parsedElements.reduce((sum, el) => sum + el.displayLength, 0);
 
   useEffect(() => {
     if (displayIndex < totalDisplayLength) {
@@ -94,7 +31,7 @@ export const TypingAnimation: React.FC<TypingAnimationProps> = ({
       }, speed);
 
       return () => clearTimeout(timeout);
-    } else if (displayIndex === totalDisplayLength && !isComplete) {
+    } else if (!isComplete) {
       setIsComplete(true);
       onComplete?.();
     }
@@ -102,48 +39,24 @@ export const TypingAnimation: React.FC<TypingAnimationProps> = ({
 
   // Reset when text changes
   useEffect(() => {
-    setDisplayIndex(0);
+    setDisplayIndex(prefersReducedMotion() ? totalDisplayLength : 0);
     setIsComplete(false);
-  }, [text]);
-
-  // רנדור אלמנטים בהתאם למיקום התצוגה הנוכחי
-  const renderElements = () => {
-    const renderedElements: React.ReactNode[] = [];
-    
-    for (const element of parsedElements) {
-      if (displayIndex < element.displayStartIndex) {
-        // עדיין לא הגענו לאלמנט הזה
-        break;
-      }
-      
-      if (element.type === 'text') {
-        // טקסט רגיל - מציגים עד המיקום הנוכחי
-        const visibleLength = Math.min(displayIndex - element.displayStartIndex, element.displayLength);
-        if (visibleLength > 0) {
-          renderedElements.push(
-            <span key={element.startIndex}>
-              {element.content.slice(0, visibleLength)}
-            </span>
-          );
-        }
-      } else if (element.type === 'link') {
-        // לינק - מציגים את הכפתור מיד ומטייפים רק את הטקסט הנראה
-        if (displayIndex >= element.displayStartIndex) {
-          // חישוב כמה תווים מהטקסט הנראה צריך להציג
-          const visibleLength = Math.min(displayIndex - element.displayStartIndex, element.displayLength);
-          const visibleLinkText = (element.linkText || '').slice(0, visibleLength);
-          
-          renderedElements.push(
-            <LinkButton icon='🔗' key={element.startIndex} href={element.linkUrl || '#'}>
-              {visibleLinkText}
-            </LinkButton>
-          );
-        }
-      }
-    }
-    
-    return renderedElements;
-  };
-
-  return <>{renderElements()}</>;
+  }, [text, totalDisplayLength]);
+
+  const visibleBlocks = useMemo(() => truncateBlocks(blocks, displayIndex), [blocks, displayIndex]);
+
+  // לחיצה מדלגת לסוף
+  const skipToEnd = () => setDisplayIndex(totalDisplayLength);
+
+  // התוכן המלא תופס את המקום מראש (בלתי נראה) והחלק המוקלד מוצג מעליו
+  return (
+    <div className="grid cursor-pointer" onClick={skipToEnd} title={t('skipTyping')}>
+      <div className="invisible [grid-area:1/1]" aria-hidden="true">
+        <MarkdownContent blocks={blocks} />
+      </div>
+      <div className="[grid-area:1/1]">
+        <MarkdownContent blocks={visibleBlocks} />
+      </div>
+    </div>
+  );
 };
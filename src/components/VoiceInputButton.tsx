@@ -0,0 +1,64 @@
+import React, { useCallback, useRef } from 'react';
+import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { useI18n } from '../hooks/useI18n';
+
+interface VoiceInputButtonProps {
+  lang: string;
+  value: string;
+  onChange: (value: string) => void;
+  onRecorded: (file: File) => void;
+  disabled?: boolean;
+}
+
+/**
+ * כפתור מיקרופון: תמלול מקומי כשהדפדפן תומך ב-Web Speech API,
+ * אחרת הקלטת אודיו שנשלחת ל-webhook כקובץ מצורף. מוסתר כשאין תמיכה באף אחד מהם.
+ */
+const VoiceInputButton: React.FC<VoiceInputButtonProps> = ({ lang, value, onChange, onRecorded, disabled }) => {
+  const { t } = useI18n();
+  const baseTextRef = useRef('');
+  const handleTranscript = useCallback(
+    (transcript: string) => {
+      const base = baseTextRef.current;
+      onChange(base ? `${base} ${transcript}` : transcript);
+    },
+    [onChange]
+  );
+  const recognition = useSpeechRecognition(lang, handleTranscript);
+  const recorder = useAudioRecorder(onRecorded);
+
+  if (!recognition.isSupported && !recorder.isSupported) return null;
+
+  const isActive = recognition.isSupported ? recognition.isListening : recorder.isRecording;
+
+  const toggle = () => {
+    if (recognition.isSupported) {
+      if (recognition.isListening) {
+        recognition.stop();
+      } else {
+        baseTextRef.current = value.trim();
+        recognition.start();
+      }
+    } else if (recorder.isRecording) {
+      recorder.stop();
+    } else {
+      recorder.start();
+    }
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      disabled={disabled && !isActive}
+      title={isActive ? t('stopRecording') : t('startRecording')}
+      className={`rounded-xl px-2 py-2 sm:py-3 transition-colors duration-200 flex-shrink-0 disabled:text-slate-300 disabled:cursor-not-allowed ${isActive ? 'text-red-600 bg-red-50 animate-pulse' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'}`}
+    >
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+      </svg>
+    </button>
+  );
+};
+
+export default VoiceInputButton;
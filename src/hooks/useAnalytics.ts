@@ -0,0 +1,4 @@
+import { useContext } from 'react';
+import { AnalyticsContext } from '../lib/analytics';
+
+export const useAnalytics = () => useContext(AnalyticsContext);
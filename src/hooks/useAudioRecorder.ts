@@ -0,0 +1,66 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+const pickMimeType = () => MIME_TYPES.find((type) => MediaRecorder.isTypeSupported?.(type)) ?? '';
+
+/** הקלטת אודיו מהמיקרופון; onRecorded מקבל קובץ מוכן לשליחה כשההקלטה נעצרת */
+export const useAudioRecorder = (onRecorded: (file: File) => void) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  // ההקלטה יכולה להימשך כמה רינדורים - תמיד קוראים ל-callback העדכני
+  const onRecordedRef = useRef(onRecorded);
+  useEffect(() => {
+    onRecordedRef.current = onRecorded;
+  });
+  const isSupported =
+    typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  const start = useCallback(async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        setIsRecording(false);
+        if (chunks.length === 0) return;
+        const type = recorder.mimeType || 'audio/webm';
+        const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+        onRecordedRef.current(new File(chunks, `voice-${Date.now()}.${extension}`, { type }));
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Error starting audio recording:', error);
+      setIsRecording(false);
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  // ירידת הרכיב באמצע הקלטה - משחררים את המיקרופון בלי לשלוח
+  useEffect(
+    () => () => {
+      const recorder = recorderRef.current;
+      if (recorder?.state === 'recording') {
+        recorder.onstop = () => recorder.stream.getTracks().forEach((track) => track.stop());
+        recorder.stop();
+      }
+    },
+    []
+  );
+
+  return { isSupported, isRecording, start, stop };
+};
@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ulid } from 'ulid';
+import type { Conversation, LeadInfo, Message } from '../types/chat';
+import { applyRetention, migrateLegacyStorage, type MessageStore, type RetentionPolicy } from '../lib/storage';
+
+const SESSION_ID_KEY = 'chat_session_id';
+
+const createConversationRecord = (id: string): Conversation => {
+  const now = new Date();
+  return { id, title: '', createdAt: now, updatedAt: now };
+};
+
+/** fallback - הכותרת לשיחה שעוד אין בה הודעות (לפי שפת הממשק) */
+export const getConversationTitle = (conversation: Conversation, fallback: string) =>
+  conversation.customTitle || conversation.title || fallback;
+
+/**
+ * ניהול רשימת השיחות. כל שיחה היא sessionId נפרד מול n8n;
+ * השיחה הפעילה נשמרת ב-chat_session_id כמו קודם, והרשימה עצמה ב-store.
+ */
+export const useConversations = (store: MessageStore, retention: RetentionPolicy) => {
+  const [initial] = useState(() => {
+    const stored = localStorage.getItem(SESSION_ID_KEY);
+    return { id: stored ?? ulid(), isNew: !stored };
+  });
+  const [activeId, setActiveId] = useState(initial.id);
+  // שיחה שנוצרה עכשיו - אין טעם לטעון לה היסטוריה מהשרת
+  const [freshId, setFreshId] = useState<string | null>(initial.isNew ? initial.id : null);
+  const [conversations, setConversations] = useState<Conversation[]>(() => [createConversationRecord(initial.id)]);
+  const [isReady, setIsReady] = useState(false);
+  const savedRef = useRef(new Map<string, Conversation>());
+
+  // מיגרציה מה-localStorage הישן, ניקוי לפי מדיניות השמירה וטעינת הרשימה
+  useEffect(() => {
+    let cancelled = false;
+    migrateLegacyStorage(store)
+      .then(() => applyRetention(store, retention, initial.id))
+      .then((stored) => {
+        if (cancelled) return;
+        savedRef.current = new Map(stored.map((conversation) => [conversation.id, conversation]));
+        setConversations((prev) => [
+          ...prev.filter((conversation) => !savedRef.current.has(conversation.id)),
+          ...stored,
+        ]);
+      })
+      .catch((error) => console.error('Error loading conversations:', error))
+      .finally(() => {
+        if (!cancelled) setIsReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [store, retention, initial.id]);
+
+  // שומרים רק שיחות שהשתנו
+  useEffect(() => {
+    if (!isReady) return;
+    for (const conversation of conversations) {
+      if (savedRef.current.get(conversation.id) !== conversation) {
+        savedRef.current.set(conversation.id, conversation);
+        store.putConversation(conversation).catch((error) => console.error('Error saving conversation:', error));
+      }
+    }
+  }, [conversations, isReady, store]);
+
+  useEffect(() => {
+    localStorage.setItem(SESSION_ID_KEY, activeId);
+  }, [activeId]);
+
+  const createConversation = useCallback(() => {
+    const id = ulid();
+    setConversations((prev) => [createConversationRecord(id), ...prev]);
+    setActiveId(id);
+    setFreshId(id);
+    return id;
+  }, []);
+
+  /** שיחה שכבר נשמרה ב-store (ייבוא תמליל) - נכנסת לרשימה והופכת לפעילה */
+  const addConversation = useCallback((conversation: Conversation) => {
+    savedRef.current.set(conversation.id, conversation);
+    setConversations((prev) => [conversation, ...prev.filter((existing) => existing.id !== conversation.id)]);
+    setActiveId(conversation.id);
+  }, []);
+
+  const switchConversation = useCallback((id: string) => {
+    setActiveId(id);
+  }, []);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    setConversations((prev) =>
+      prev.map((conversation) =>
+        conversation.id === id ? { ...conversation, customTitle: title.trim() || undefined } : conversation
+      )
+    );
+  }, []);
+
+  const setConversationLead = useCallback((id: string, lead: LeadInfo) => {
+    setConversations((prev) =>
+      prev.map((conversation) => (conversation.id === id ? { ...conversation, lead } : conversation))
+    );
+  }, []);
+
+  /** מחיקת שיחה; מחזיר את השיחה שהפכה לפעילה */
+  const deleteConversation = useCallback(
+    (id: string) => {
+      savedRef.current.delete(id);
+      store.deleteConversation(id).catch((error) => console.error('Error deleting conversation:', error));
+      const remaining = conversations.filter((conversation) => conversation.id !== id);
+      if (id !== activeId) {
+        setConversations(remaining);
+        return activeId;
+      }
+      const next = [...remaining].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+      if (next) {
+        setConversations(remaining);
+        setActiveId(next.id);
+        return next.id;
+      }
+      const created = createConversationRecord(ulid());
+      setConversations([created]);
+      setActiveId(created.id);
+      setFreshId(created.id);
+      return created.id;
+    },
+    [conversations, activeId, store]
+  );
+
+  /** עדכון כותרת וזמן פעילות אחרון לפי ההודעות של השיחה */
+  const syncConversation = useCallback((id: string, messages: Message[]) => {
+    const title = messages.find((msg) => msg.isUser)?.text.trim().slice(0, 60) ?? '';
+    const updatedAt = messages[messages.length - 1]?.timestamp;
+    setConversations((prev) => {
+      const current = prev.find((conversation) => conversation.id === id);
+      if (!current || !updatedAt) return prev;
+      if (current.title === title && current.updatedAt.getTime() === updatedAt.getTime()) return prev;
+      return prev.map((conversation) => (conversation.id === id ? { ...conversation, title, updatedAt } : conversation));
+    });
+  }, []);
+
+  return {
+    conversations,
+    activeId,
+    isReady,
+    isNewConversation: activeId === freshId,
+    createConversation,
+    addConversation,
+    switchConversation,
+    renameConversation,
+    setConversationLead,
+    deleteConversation,
+    syncConversation,
+  };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+/** השניות שנותרו עד until (ספירה לאחור שמתעדכנת כל שנייה); 0 כשאין המתנה */
+export const useCooldown = (until: number | null) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!until) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= until) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [until]);
+
+  return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
+};
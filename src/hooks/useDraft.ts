@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+
+const draftKey = (sessionId: string) => `chat_draft_${sessionId}`;
+
+const readDraft = (sessionId: string) => {
+  try {
+    return localStorage.getItem(draftKey(sessionId)) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const clearDraft = (sessionId: string) => {
+  try {
+    localStorage.removeItem(draftKey(sessionId));
+  } catch {
+    // אין גישה ל-localStorage (מצב פרטי וכו') - אין מה לנקות
+  }
+};
+
+/** טיוטת ההודעה של כל שיחה נשמרת בנפרד ב-localStorage, ומשוחזרת במעבר שיחה או בטעינה מחדש */
+export const useDraft = (sessionId: string) => {
+  const [draft, setDraft] = useState(() => readDraft(sessionId));
+  const [draftSessionId, setDraftSessionId] = useState(sessionId);
+
+  if (draftSessionId !== sessionId) {
+    setDraftSessionId(sessionId);
+    setDraft(readDraft(sessionId));
+  }
+
+  useEffect(() => {
+    if (draftSessionId !== sessionId) return;
+    try {
+      if (draft) localStorage.setItem(draftKey(sessionId), draft);
+      else localStorage.removeItem(draftKey(sessionId));
+    } catch (error) {
+      console.error('Error saving draft:', error);
+    }
+  }, [draft, sessionId, draftSessionId]);
+
+  return [draft, setDraft] as const;
+};
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ulid } from 'ulid';
+import type { HandoffState, Message } from '../types/chat';
+import type { Translate } from '../lib/i18n';
+import type { AgentEvent, ChatTransport, HandoffRequest } from '../lib/transport';
+
+const handoffKey = (sessionId: string) => `chat_handoff_${sessionId}`;
+
+const readHandoff = (sessionId: string): HandoffState | null => {
+  try {
+    const saved = localStorage.getItem(handoffKey(sessionId));
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearHandoff = (sessionId: string) => {
+  try {
+    localStorage.removeItem(handoffKey(sessionId));
+  } catch {
+    // אין גישה ל-localStorage - אין מה לנקות
+  }
+};
+
+const systemMessage = (text: string): Message => ({
+  id: ulid(),
+  text,
+  isUser: false,
+  sender: 'system',
+  timestamp: new Date(),
+});
+
+interface UseHandoffOptions {
+  transport: ChatTransport;
+  sessionId: string;
+  /** הוספת הודעת נציג או הודעת מערכת לשיחה */
+  addMessage: (message: Message) => void;
+  t: Translate;
+  metadata?: Record<string, unknown>;
+}
+
+// הודעת נציג בלי id מהשרת מקבלת id קבוע לפי הזמן שלה, כדי שאותה הודעה שנשלחת שוב לא תוצג פעמיים
+const agentMessageId = (event: Extract<AgentEvent, { type: 'message' }>) =>
+  event.id ?? (event.timestamp ? `agent-${event.timestamp.getTime()}` : ulid());
+
+/**
+ * מצב ההעברה לנציג של כל שיחה. בזמן ההעברה מאזינים לאירועי הנציג (ראו agentEvents.ts);
+ * המצב, כולל ה-cursor של האירוע האחרון, נשמר ב-localStorage כדי שטעינה מחדש תמשיך את השיחה עם הנציג.
+ */
+export const useHandoff = ({ transport, sessionId, addMessage, t, metadata }: UseHandoffOptions) => {
+  const [handoff, setHandoff] = useState(() => readHandoff(sessionId));
+  const [handoffSessionId, setHandoffSessionId] = useState(sessionId);
+  const channel = transport.handoff;
+  const callbacksRef = useRef({ addMessage, t });
+  const handoffRef = useRef(handoff);
+
+  if (handoffSessionId !== sessionId) {
+    setHandoffSessionId(sessionId);
+    setHandoff(readHandoff(sessionId));
+  }
+
+  useEffect(() => {
+    callbacksRef.current = { addMessage, t };
+    handoffRef.current = handoff;
+  });
+
+  useEffect(() => {
+    if (handoffSessionId !== sessionId) return;
+    try {
+      if (handoff) localStorage.setItem(handoffKey(sessionId), JSON.stringify(handoff));
+      else localStorage.removeItem(handoffKey(sessionId));
+    } catch (error) {
+      console.error('Error saving handoff state:', error);
+    }
+  }, [handoff, sessionId, handoffSessionId]);
+
+  const isHandingOff = !!handoff;
+
+  useEffect(() => {
+    if (!channel || !isHandingOff) return;
+
+    const handleEvent = (event: AgentEvent) => {
+      const { addMessage, t } = callbacksRef.current;
+      switch (event.type) {
+        case 'queue': {
+          const current = handoffRef.current;
+          if (current?.status === 'active') break;
+          // הודעה בתור רק בכניסה; עדכוני מיקום מוצגים בכותרת
+          if (current?.status === 'requested') addMessage(systemMessage(t('agentQueued')));
+          handoffRef.current = { status: 'queued', queuePosition: event.position, cursor: current?.cursor };
+          setHandoff(handoffRef.current);
+          break;
+        }
+        case 'joined':
+          handoffRef.current = { status: 'active', agent: event.agent, cursor: handoffRef.current?.cursor };
+          setHandoff(handoffRef.current);
+          addMessage(systemMessage(t('agentJoined', { name: event.agent.name })));
+          break;
+        case 'message':
+          addMessage({
+            id: agentMessageId(event),
+            text: event.text,
+            isUser: false,
+            sender: 'agent',
+            agent: event.agent,
+            timestamp: event.timestamp ?? new Date(),
+          });
+          break;
+        case 'left':
+          handoffRef.current = null;
+          setHandoff(null);
+          addMessage(systemMessage(t('agentLeft', { name: event.agent?.name ?? t('agent') })));
+          break;
+      }
+    };
+
+    const updateCursor = (cursor: string) => {
+      if (!handoffRef.current) return;
+      handoffRef.current = { ...handoffRef.current, cursor };
+      setHandoff(handoffRef.current);
+    };
+
+    return channel.subscribe(sessionId, handleEvent, { cursor: handoffRef.current?.cursor, onCursor: updateCursor });
+  }, [channel, sessionId, isHandingOff]);
+
+  const requestHandoff = useCallback(
+    (source: HandoffRequest['source'], reason?: string) => {
+      if (!channel || handoff) return;
+      setHandoff({ status: 'requested' });
+      addMessage(systemMessage(t('handoffRequested')));
+      channel.request({ sessionId, source, reason, metadata }).catch((error) => {
+        console.error('Error requesting handoff:', error);
+        setHandoff(null);
+        addMessage(systemMessage(t('handoffFailed')));
+      });
+    },
+    [channel, handoff, sessionId, metadata, addMessage, t]
+  );
+
+  const endHandoff = useCallback(() => {
+    if (!channel || !handoff) return;
+    setHandoff(null);
+    addMessage(systemMessage(t('handoffEnded')));
+    channel.end(sessionId).catch((error) => console.error('Error ending handoff:', error));
+  }, [channel, handoff, sessionId, addMessage, t]);
+
+  return { handoff, requestHandoff, endHandoff };
+};
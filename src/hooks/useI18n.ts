@@ -0,0 +1,4 @@
+import { useContext } from 'react';
+import { I18nContext } from '../lib/i18n';
+
+export const useI18n = () => useContext(I18nContext);
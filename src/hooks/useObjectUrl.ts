@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+
+/** כתובת זמנית (blob:) לקובץ מקומי; משתחררת כשהקובץ מתחלף או כשהרכיב יורד */
+export const useObjectUrl = (blob?: Blob) => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    // קובץ ששוחזר מאחסון עלול להגיע כאובייקט ריק במקום Blob
+    if (!(blob instanceof Blob)) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+/** navigator.onLine - מתעדכן באירועי online / offline */
+export const useOnlineStatus = () =>
+  useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
@@ -0,0 +1,29 @@
+import { useContext } from 'react';
+import type React from 'react';
+import { useAnalytics } from './useAnalytics';
+import { evaluateLink, LinkPolicyContext } from '../lib/linkPolicy';
+
+/**
+ * קישור מהבוט אחרי מדיניות הקישורים: הכתובת המנורמלת, האם לפתוח באותו טאב,
+ * ו-onClick שמדווח על הלחיצה ומציג את חלון האישור לפני אתר חיצוני. null - הקישור חסום.
+ */
+export const usePolicyLink = (href: string | undefined) => {
+  const { policy, confirmExternal } = useContext(LinkPolicyContext);
+  const track = useAnalytics();
+  if (!href) return null;
+
+  const decision = evaluateLink(href, policy);
+  if (decision.action === 'block') return null;
+
+  return {
+    href: decision.href,
+    action: decision.action,
+    sameTab: decision.action !== 'external',
+    onClick: (e: React.MouseEvent<HTMLAnchorElement>) => {
+      track({ name: 'link_clicked', url: decision.href, target: decision.action });
+      if (decision.action !== 'external' || !decision.confirm) return;
+      e.preventDefault();
+      confirmExternal(decision.href, decision.host);
+    },
+  };
+};
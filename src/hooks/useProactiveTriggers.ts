@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import { canShowTrigger, recordTriggerShown, watchCondition, type ProactiveTrigger } from '../lib/triggers';
+
+/**
+ * מאזין לטריגרים היזומים כל עוד enabled (החלון סגור). לכל היותר טריגר אחד בכל טעינת עמוד,
+ * וטריגר שעבר את מכסת ההצגות למבקר לא נרשם בכלל.
+ */
+export const useProactiveTriggers = (
+  triggers: ProactiveTrigger[],
+  enabled: boolean,
+  onFire: (trigger: ProactiveTrigger) => void
+) => {
+  const onFireRef = useRef(onFire);
+  const firedRef = useRef(false);
+
+  useEffect(() => {
+    onFireRef.current = onFire;
+  });
+
+  useEffect(() => {
+    if (!enabled || firedRef.current) return;
+    const stops = triggers
+      .filter((trigger) => canShowTrigger(trigger))
+      .map((trigger) =>
+        watchCondition(trigger.when, () => {
+          if (firedRef.current) return;
+          firedRef.current = true;
+          recordTriggerShown(trigger);
+          onFireRef.current(trigger);
+        })
+      );
+    return () => stops.forEach((stop) => stop());
+  }, [triggers, enabled]);
+};
@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Message } from '../types/chat';
+import type { ChatTransport } from '../lib/transport';
+import type { MessageStore } from '../lib/storage';
+import { mergeMessages } from '../lib/mergeMessages';
+
+interface UseSessionMessagesOptions {
+  store: MessageStore;
+  transport: ChatTransport;
+  sessionId: string;
+  /** שיחה שנוצרה עכשיו - לא טוענים לה היסטוריה מהשרת */
+  isNewConversation: boolean;
+  /** ה-store מוכן (אחרי מיגרציה) */
+  isStoreReady: boolean;
+  createInitialMessages: () => Message[];
+}
+
+// הדף נסגר באמצע שליחה - ההודעה מסומנת כנכשלה כדי שאפשר יהיה לנסות שוב;
+// תשובה שנשמרה באמצע סטרימינג מסומנת כלא שלמה
+const reviveInterrupted = (message: Message): Message => ({
+  ...message,
+  ...(message.status === 'sending' ? { status: 'failed' as const } : {}),
+  ...(message.isStreaming ? { isStreaming: false, isIncomplete: true } : {}),
+});
+
+// בסטרימינג כל חלק מחליף את ההודעה; שומרים אותה לכל היותר פעם בפרק הזמן הזה, ושוב כשהתשובה מסתיימת
+const STREAMING_SAVE_INTERVAL_MS = 2000;
+
+interface SavedEntry {
+  message: Message;
+  order: number;
+}
+
+/**
+ * ההודעות של השיחה הפעילה: טעינה מה-store, מיזוג עם ההיסטוריה ב-n8n,
+ * ושמירה הדרגתית - רק הודעות שנוספו, השתנו או זזו נכתבות מחדש.
+ */
+export const useSessionMessages = ({
+  store,
+  transport,
+  sessionId,
+  isNewConversation,
+  isStoreReady,
+  createInitialMessages,
+}: UseSessionMessagesOptions) => {
+  const [messages, setMessages] = useState<Message[]>(createInitialMessages);
+  const [currentSessionId, setCurrentSessionId] = useState(sessionId);
+  const [loadedSessionId, setLoadedSessionId] = useState<string | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const savedRef = useRef(new Map<string, SavedEntry>());
+  const streamSavedAtRef = useRef(0);
+
+  // מעבר שיחה - מתחילים מהודעת הפתיחה עד שההודעות השמורות נטענות
+  if (currentSessionId !== sessionId) {
+    setCurrentSessionId(sessionId);
+    setLoadedSessionId(null);
+    setMessages(createInitialMessages());
+    setIsLoadingHistory(true);
+  }
+
+  useEffect(() => {
+    if (!isStoreReady) return;
+    let cancelled = false;
+    const controller = new AbortController();
+
+    const load = async () => {
+      const local = (await store.getMessages(sessionId)).map(reviveInterrupted);
+      if (cancelled) return;
+      savedRef.current = new Map(local.map((message, order) => [message.id, { message, order }]));
+      setMessages((prev) => {
+        if (local.length === 0) return prev;
+        const known = new Set(local.map((msg) => msg.id));
+        // הודעות שנוספו בזמן הטעינה (הודעות משתמש, תשובות, פתיחה יזומה) נשמרות אחרי ההיסטוריה המקומית
+        return [...local, ...prev.filter((msg) => !known.has(msg.id))];
+      });
+      setLoadedSessionId(sessionId);
+
+      // טעינת היסטוריה מהזיכרון של n8n - למקרה שהאחסון המקומי נוקה או שהמשתמש עבר מכשיר
+      if (isNewConversation) return;
+      const history = await transport.loadPreviousSession(sessionId, controller.signal);
+      if (!cancelled && history.length > 0) {
+        setMessages((prev) => mergeMessages(prev, history));
+      }
+    };
+
+    load()
+      .catch((error) => {
+        if (!cancelled) console.error('Error loading messages:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingHistory(false);
+      });
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [store, transport, sessionId, isNewConversation, isStoreReady]);
+
+  useEffect(() => {
+    if (loadedSessionId !== sessionId) return;
+    const saved = savedRef.current;
+    const next = new Map<string, SavedEntry>();
+    const logError = (error: unknown) => console.error('Error saving messages:', error);
+
+    messages.forEach((message, order) => {
+      const previous = saved.get(message.id);
+      if (previous && previous.message === message && previous.order === order) {
+        next.set(message.id, previous);
+        return;
+      }
+      if (message.isStreaming) {
+        // נשמרת הגרסה הקודמת - ההודעה תיכתב שוב בחלק הבא אחרי ההמתנה או בסיום התשובה
+        if (previous && Date.now() - streamSavedAtRef.current < STREAMING_SAVE_INTERVAL_MS) {
+          next.set(message.id, previous);
+          return;
+        }
+        streamSavedAtRef.current = Date.now();
+      }
+      next.set(message.id, { message, order });
+      store.putMessage(sessionId, message, order).catch(logError);
+    });
+    for (const id of saved.keys()) {
+      if (!next.has(id)) store.deleteMessage(sessionId, id).catch(logError);
+    }
+    savedRef.current = next;
+  }, [messages, sessionId, loadedSessionId, store]);
+
+  return { messages, setMessages, isLoadingHistory };
+};
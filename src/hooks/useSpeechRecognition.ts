@@ -0,0 +1,64 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+// Web Speech API עדיין לא חלק מהטיפוסים של TypeScript - רק מה שצריך כאן
+interface SpeechRecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+}
+
+interface SpeechRecognitionInstance {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+/** תמלול דיבור מקומי בדפדפן; onTranscript מקבל את כל הטקסט שזוהה עד עכשיו */
+export const useSpeechRecognition = (lang: string, onTranscript: (text: string) => void) => {
+  const [isListening, setIsListening] = useState(false);
+  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
+  const isSupported = !!getRecognitionConstructor();
+
+  const start = useCallback(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) return;
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.interimResults = true;
+    recognition.continuous = false;
+    recognition.onresult = (event) => {
+      const transcript = Array.from(event.results)
+        .map((result) => result[0].transcript)
+        .join('');
+      onTranscript(transcript);
+    };
+    recognition.onerror = (event) => console.error('Speech recognition error:', event.error);
+    recognition.onend = () => setIsListening(false);
+    recognitionRef.current = recognition;
+    recognition.start();
+    setIsListening(true);
+  }, [lang, onTranscript]);
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  return { isSupported, isListening, start, stop };
+};
@@ -0,0 +1,47 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+let activeUtterance: SpeechSynthesisUtterance | null = null;
+
+/** הקראת טקסט בקול; קריאה חדשה עוצרת הקראה קודמת בכל ההודעות */
+export const useSpeechSynthesis = (lang: string) => {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  const speak = useCallback(
+    (text: string) => {
+      if (!isSupported || !text.trim()) return;
+      window.speechSynthesis.cancel();
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      const voice = window.speechSynthesis.getVoices().find((candidate) => candidate.lang === lang);
+      if (voice) utterance.voice = voice;
+      utterance.onend = () => setIsSpeaking(false);
+      utterance.onerror = () => setIsSpeaking(false);
+      utteranceRef.current = utterance;
+      activeUtterance = utterance;
+      window.speechSynthesis.speak(utterance);
+      setIsSpeaking(true);
+    },
+    [lang]
+  );
+
+  const cancel = useCallback(() => {
+    if (!isSupported) return;
+    window.speechSynthesis.cancel();
+    setIsSpeaking(false);
+  }, []);
+
+  // עוצרים רק אם ההקראה הנוכחית שייכת לרכיב הזה
+  useEffect(
+    () => () => {
+      if (isSupported && utteranceRef.current && utteranceRef.current === activeUtterance) {
+        window.speechSynthesis.cancel();
+      }
+    },
+    []
+  );
+
+  return { isSupported, isSpeaking, speak, cancel };
+};
@@ -0,0 +1,21 @@
+import { useContext, useSyncExternalStore } from 'react';
+import { ThemeContext, type ColorScheme } from '../lib/theme';
+
+export const useTheme = () => useContext(ThemeContext);
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const subscribe = (onChange: () => void) => {
+  const query = window.matchMedia?.(DARK_QUERY);
+  query?.addEventListener('change', onChange);
+  return () => query?.removeEventListener('change', onChange);
+};
+
+const prefersDark = () => !!window.matchMedia?.(DARK_QUERY).matches;
+
+/** המצב בפועל - 'auto' עוקב אחרי הגדרת מערכת ההפעלה */
+export const useResolvedColorScheme = (scheme: ColorScheme): 'light' | 'dark' => {
+  const systemDark = useSyncExternalStore(subscribe, prefersDark, () => false);
+  if (scheme === 'auto') return systemDark ? 'dark' : 'light';
+  return scheme;
+};
@@ -0,0 +1,43 @@
+import type { AnalyticsEvent, AnalyticsSink, ChatEvent } from './types';
+
+export interface Analytics {
+  track(event: ChatEvent, sessionId: string): void;
+  /** הסכמת המבקר; ביטול ההסכמה עוצר את האירועים הבאים */
+  setConsent(granted: boolean): void;
+  hasConsent(): boolean;
+  flush(): void;
+  /** שחרור היעדים (מאזינים, טיימרים); אחרי זה לא נשלחים אירועים */
+  dispose(): void;
+}
+
+/** כל אירוע עובר לכל היעדים, ורק אחרי שהמבקר הסכים - אירועים מלפני ההסכמה לא נשמרים */
+export const createAnalytics = (sinks: AnalyticsSink[], consent = false): Analytics => {
+  let granted = consent;
+  let disposed = false;
+
+  return {
+    track(event, sessionId) {
+      if (!granted || disposed || sinks.length === 0) return;
+      const payload = { ...event, sessionId, timestamp: Date.now() } as AnalyticsEvent;
+      for (const sink of sinks) {
+        // יעד שנכשל לא מפיל את הצ'אט ולא את שאר היעדים
+        try {
+          sink.track(payload);
+        } catch (error) {
+          console.error('Error in analytics sink:', error);
+        }
+      }
+    },
+    setConsent(value) {
+      granted = value;
+    },
+    hasConsent: () => granted,
+    flush() {
+      sinks.forEach((sink) => sink.flush?.());
+    },
+    dispose() {
+      disposed = true;
+      sinks.forEach((sink) => sink.dispose?.());
+    },
+  };
+};
@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import type { ChatEvent } from './types';
+
+/** דיווח אירוע מתוך קומפוננטות הצ'אט; מחוץ לצ'אט - לא עושה כלום */
+export const AnalyticsContext = createContext<(event: ChatEvent) => void>(() => {});
@@ -0,0 +1,4 @@
+export type { AnalyticsConfig, AnalyticsEvent, AnalyticsSink, BeaconSinkOptions, ChatEvent, ChatEventName } from './types';
+export { createAnalytics, type Analytics } from './bus';
+export { createBeaconSink, createConsoleSink, createDataLayerSink, resolveSinks } from './sinks';
+export { AnalyticsContext } from './context';
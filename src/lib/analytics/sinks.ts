@@ -0,0 +1,89 @@
+import type { AnalyticsConfig, AnalyticsEvent, AnalyticsSink, BeaconSinkOptions } from './types';
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 10_000;
+const DEFAULT_DATA_LAYER_PREFIX = 'chat_';
+
+declare global {
+  interface Window {
+    dataLayer?: Record<string, unknown>[];
+  }
+}
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  track: (event) => console.info('[chat analytics]', event.name, event),
+});
+
+/**
+ * אצוות ל-endpoint ב-navigator.sendBeacon - נשלחות גם כשהעמוד נסגר.
+ * גוף הבקשה: { "events": [...] }. אם ה-beacon נדחה (גודל, דפדפן) - fetch עם keepalive.
+ */
+export const createBeaconSink = ({
+  endpoint,
+  batchSize = DEFAULT_BATCH_SIZE,
+  flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+}: BeaconSinkOptions): AnalyticsSink => {
+  let queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (queue.length === 0) return;
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+    const sent = typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(endpoint, new Blob([body], { type: 'application/json' }));
+    if (!sent) {
+      fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true }).catch(
+        (error) => console.error('Error sending analytics:', error)
+      );
+    }
+  };
+
+  // סגירת הטאב או מעבר לאפליקציה אחרת במובייל - שולחים מה שנאסף
+  const flushWhenHidden = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+  window.addEventListener('pagehide', flush);
+  document.addEventListener('visibilitychange', flushWhenHidden);
+
+  return {
+    track(event) {
+      queue.push(event);
+      if (queue.length >= batchSize) flush();
+      else timer ??= setTimeout(flush, flushIntervalMs);
+    },
+    flush,
+    dispose() {
+      flush();
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+    },
+  };
+};
+
+/** דחיפה ל-dataLayer של Google Tag Manager: { event: 'chat_message_sent', ...שדות האירוע } */
+export const createDataLayerSink = (prefix = DEFAULT_DATA_LAYER_PREFIX): AnalyticsSink => ({
+  track: ({ name, ...fields }) => {
+    window.dataLayer ??= [];
+    window.dataLayer.push({ event: `${prefix}${name}`, ...fields });
+  },
+});
+
+export const resolveSinks = (config: AnalyticsConfig = {}): AnalyticsSink[] => {
+  const sinks = [...(config.sinks ?? [])];
+  if (config.debug) sinks.push(createConsoleSink());
+  if (config.beaconUrl) {
+    sinks.push(
+      createBeaconSink({
+        endpoint: config.beaconUrl,
+        batchSize: config.batchSize,
+        flushIntervalMs: config.flushIntervalMs,
+      })
+    );
+  }
+  if (config.dataLayer) {
+    sinks.push(createDataLayerSink(typeof config.dataLayer === 'string' ? config.dataLayer : undefined));
+  }
+  return sinks;
+};
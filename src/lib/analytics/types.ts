@@ -0,0 +1,66 @@
+import type { ChatErrorKind } from '../transport';
+
+/** אירועי הצ'אט - בלי תוכן ההודעות, רק מטא-דאטה */
+export type ChatEvent =
+  | { name: 'widget_open' }
+  | { name: 'widget_close' }
+  | {
+      name: 'message_sent';
+      messageId: string;
+      length: number;
+      attachments: number;
+      recipient: 'bot' | 'agent';
+      resend?: 'edit' | 'regenerate';
+    }
+  | {
+      name: 'response_received';
+      messageId: string;
+      /** מהשליחה ועד שהתשובה הגיעה במלואה */
+      latencyMs: number;
+      /** בסטרימינג - מהשליחה ועד החלק הראשון */
+      firstChunkMs?: number;
+      streamed: boolean;
+    }
+  | { name: 'error'; errorType: ChatErrorKind; status?: number; recipient: 'bot' | 'agent'; partial?: boolean }
+  | { name: 'link_clicked'; url: string; target: 'internal' | 'external' | 'contact' }
+  | { name: 'feedback'; messageId: string; rating: 'up' | 'down'; hasComment: boolean };
+
+export type ChatEventName = ChatEvent['name'];
+
+/** אירוע כפי שמגיע ליעדים - עם השיחה והזמן */
+export type AnalyticsEvent = ChatEvent & {
+  sessionId: string;
+  timestamp: number;
+};
+
+/** יעד לאירועים: קונסול, beacon לשרת, dataLayer של GTM או מימוש של האתר המארח */
+export interface AnalyticsSink {
+  track(event: AnalyticsEvent): void;
+  /** שליחת אירועים שממתינים באצווה */
+  flush?(): void;
+  /** שליחת מה שנשאר והסרת המאזינים - כשהצ'אט יורד מהעמוד */
+  dispose?(): void;
+}
+
+export interface BeaconSinkOptions {
+  endpoint: string;
+  /** מספר האירועים באצווה (ברירת מחדל: 20) */
+  batchSize?: number;
+  /** שליחת אצווה חלקית אחרי הזמן הזה (ברירת מחדל: 10 שניות) */
+  flushIntervalMs?: number;
+}
+
+export interface AnalyticsConfig {
+  /** יעדים מוכנים - נוספים ליעדים שמוגדרים בשדות האחרים */
+  sinks?: AnalyticsSink[];
+  /** endpoint לאצוות ב-navigator.sendBeacon */
+  beaconUrl?: string;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  /** דחיפה ל-window.dataLayer; מחרוזת - קידומת לשם האירוע (ברירת מחדל: chat_) */
+  dataLayer?: boolean | string;
+  /** הדפסת האירועים לקונסול */
+  debug?: boolean;
+  /** המבקר כבר הסכים; בלי הסכמה לא נשלח אף אירוע עד setConsent(true) */
+  consent?: boolean;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readChatResponse } from './chatStream';
+
+const response = (body: string, contentType: string) =>
+  new Response(body, { headers: { 'Content-Type': contentType } });
+
+describe('readChatResponse', () => {
+  it('passes streamed items to onDelta and keeps the end metadata', async () => {
+    const onDelta = vi.fn();
+    const body = [
+      '{"type":"begin"}',
+      '{"type":"item","content":"שלום"}',
+      '{"type":"item","content":" עולם"}',
+      '{"type":"end","metadata":{"attachments":[]}}',
+    ].join('\n');
+
+    const result = await readChatResponse(response(body, 'application/x-ndjson'), onDelta);
+
+    expect(result).toEqual({ streamed: true, text: 'שלום עולם', metadata: { attachments: [] } });
+    expect(onDelta.mock.calls).toEqual([['שלום'], [' עולם']]);
+  });
+
+  it('reads server-sent events', async () => {
+    const body = 'event: message\ndata: {"type":"item","content":"hi"}\n\n: keep-alive\n';
+
+    await expect(readChatResponse(response(body, 'text/event-stream'), () => {})).resolves.toMatchObject({
+      streamed: true,
+      text: 'hi',
+    });
+  });
+
+  it('throws a stream error for an error chunk', async () => {
+    const body = '{"type":"item","content":"hi"}\n{"type":"error","content":"Workflow failed"}\n';
+
+    await expect(readChatResponse(response(body, 'application/x-ndjson'), () => {})).rejects.toMatchObject({
+      kind: 'stream',
+      message: 'Workflow failed',
+    });
+  });
+
+  it('returns a regular JSON body as data', async () => {
+    const result = await readChatResponse(response('{"output":"hi"}', 'application/json'), () => {});
+
+    expect(result).toEqual({ streamed: false, text: '', data: { output: 'hi' } });
+  });
+
+  it('accepts plain text only when the server declares it', async () => {
+    const result = await readChatResponse(response('hi there', 'text/plain; charset=utf-8'), () => {});
+
+    expect(result.data).toBe('hi there');
+  });
+
+  it.each([
+    ['broken JSON', '{"output":', 'application/json'],
+    ['an HTML error page', '<html><body>502 Bad Gateway</body></html>', 'text/html'],
+    ['HTML labelled as text', '<html></html>', 'text/plain'],
+    ['text without a content type', 'hi there', ''],
+  ])('throws a parse error for %s', async (_, body, contentType) => {
+    await expect(readChatResponse(response(body, contentType), () => {})).rejects.toMatchObject({ kind: 'parse' });
+  });
+});
@@ -0,0 +1,116 @@
+// קריאת תשובה מה-webhook של n8n - תומך גם בסטרימינג (NDJSON / SSE) וגם ב-JSON רגיל
+
+import { ChatTransportError } from './transport/errors';
+
+export interface StreamChunk {
+  type: 'begin' | 'item' | 'end' | 'error';
+  content?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChatResponseResult {
+  /** true אם התשובה הגיעה כחלקים (chunks) של סטרימינג */
+  streamed: boolean;
+  /** כל הטקסט שהתקבל בסטרימינג */
+  text: string;
+  /** metadata מה-chunk האחרון (end) של הסטרים */
+  metadata?: Record<string, unknown>;
+  /** גוף ה-JSON כאשר התשובה לא הייתה סטרימינג */
+  data?: unknown;
+}
+
+const CHUNK_TYPES = new Set(['begin', 'item', 'end', 'error']);
+
+const parseChunkLine = (line: string): StreamChunk | null => {
+  let payload = line.trim();
+  if (!payload) return null;
+  // SSE: "data: {...}"
+  if (payload.startsWith('data:')) {
+    payload = payload.slice(5).trim();
+  }
+  if (!payload.startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(payload);
+    if (parsed && typeof parsed === 'object' && CHUNK_TYPES.has(parsed.type)) {
+      return parsed as StreamChunk;
+    }
+  } catch {
+    // שורה חלקית או JSON רגיל שמפוזר על כמה שורות
+  }
+  return null;
+};
+
+const isPlainText = (response: Response, raw: string) =>
+  /^text\/plain\b/i.test(response.headers.get('content-type') ?? '') && !/^\s*[{[<]/.test(raw);
+
+const isSseControlLine = (line: string) => /^(event|id|retry):/.test(line.trim()) || line.trim().startsWith(':');
+
+/**
+ * קורא את גוף התשובה בצורה הדרגתית. כל chunk מסוג item מועבר ל-onDelta ברגע שהוא מגיע.
+ * אם לא זוהו chunks כלל - הגוף מפורסר כ-JSON רגיל ומוחזר ב-data (או כטקסט, כשה-content-type הוא text/plain);
+ * גוף שאינו JSON תקין זורק שגיאת parse.
+ */
+export const readChatResponse = async (
+  response: Response,
+  onDelta: (delta: string) => void
+): Promise<ChatResponseResult> => {
+  if (!response.body) {
+    return { streamed: false, text: '', data: await response.json() };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let raw = '';
+  let pending = '';
+  let streamed = false;
+  let text = '';
+  let metadata: Record<string, unknown> | undefined;
+
+  const handleLine = (line: string) => {
+    const chunk = parseChunkLine(line);
+    if (!chunk) return;
+    streamed = true;
+    if (chunk.type === 'item' && chunk.content) {
+      text += chunk.content;
+      onDelta(chunk.content);
+    } else if (chunk.type === 'end' && chunk.metadata) {
+      metadata = chunk.metadata;
+    } else if (chunk.type === 'error') {
+      throw new ChatTransportError('stream', chunk.content || 'Stream error');
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const decoded = decoder.decode(value, { stream: true });
+      raw += decoded;
+      pending += decoded;
+
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!isSseControlLine(line)) handleLine(line);
+      }
+    }
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    throw error;
+  }
+
+  pending += decoder.decode();
+  if (pending && !isSseControlLine(pending)) handleLine(pending);
+
+  if (streamed) {
+    return { streamed, text, metadata };
+  }
+
+  try {
+    return { streamed: false, text: '', data: JSON.parse(raw) };
+  } catch (error) {
+    // טקסט פשוט רק כשהשרת הצהיר עליו; JSON שבור או דף שגיאה ב-HTML לא מוצגים כתשובת הבוט
+    if (isPlainText(response, raw)) return { streamed: false, text: '', data: raw };
+    throw new ChatTransportError('parse', 'Invalid JSON response', undefined, { cause: error });
+  }
+};
@@ -0,0 +1,90 @@
+import { ulid } from 'ulid';
+import type { FileAttachment } from '../types/chat';
+import type { Translate } from './i18n';
+
+export interface AttachmentLimits {
+  maxFileSize: number; // בבתים
+  maxFiles: number;
+  /** סוגי MIME (כולל image/*) או סיומות (.pdf) */
+  acceptedTypes: string[];
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxFileSize: 10 * 1024 * 1024,
+  maxFiles: 5,
+  acceptedTypes: ['image/*', 'application/pdf', '.doc', '.docx', '.xls', '.xlsx'],
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const matchesType = (file: File, accepted: string) => {
+  if (accepted.startsWith('.')) return file.name.toLowerCase().endsWith(accepted.toLowerCase());
+  if (accepted.endsWith('/*')) return file.type.startsWith(accepted.slice(0, -1));
+  return file.type === accepted;
+};
+
+/** סינון קבצים לפי סוג, גודל ומספר; מחזיר את הקבצים התקינים ואת הודעות השגיאה */
+export const validateFiles = (files: File[], existingCount: number, limits: AttachmentLimits, t: Translate) => {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    if (!limits.acceptedTypes.some((type) => matchesType(file, type))) {
+      errors.push(t('fileTypeNotSupported', { name: file.name }));
+    } else if (file.size > limits.maxFileSize) {
+      errors.push(t('fileTooLarge', { name: file.name, size: formatFileSize(limits.maxFileSize) }));
+    } else if (existingCount + accepted.length >= limits.maxFiles) {
+      errors.push(t('tooManyFiles', { count: limits.maxFiles }));
+      break;
+    } else {
+      accepted.push(file);
+    }
+  }
+
+  return { accepted, errors };
+};
+
+export const toFileAttachment = (file: File): FileAttachment => ({
+  id: ulid(),
+  name: file.name,
+  mimeType: file.type,
+  size: file.size,
+  blob: file,
+});
+
+/** הקבצים המקוריים של הודעה שנשמרה - לשליחה חוזרת */
+export const toFiles = (attachments: FileAttachment[] = []): File[] =>
+  attachments
+    .flatMap(({ blob, name, mimeType }) => {
+      // בלי תוכן אמיתי אין מה לשלוח - לא שולחים "[object Object]" במקום הקובץ
+      if (!(blob instanceof Blob)) return [];
+      return [blob instanceof File ? blob : new File([blob], name, { type: mimeType })];
+    });
+
+export const isImage = (attachment: FileAttachment) => attachment.mimeType.startsWith('image/');
+
+/**
+ * קבצים שהבוט מחזיר בשדה files של התשובה:
+ * [{ "name": "spec.pdf", "url": "https://...", "mimeType": "application/pdf", "size": 12345 }]
+ */
+export const parseFileAttachments = (value: unknown): FileAttachment[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { name, url, mimeType, size } = entry as Record<string, unknown>;
+    if (typeof url !== 'string' || !url) return [];
+    return [
+      {
+        id: ulid(),
+        name: typeof name === 'string' && name ? name : url.split('/').pop() || url,
+        mimeType: typeof mimeType === 'string' ? mimeType : '',
+        size: typeof size === 'number' ? size : undefined,
+        url,
+      },
+    ];
+  });
+};
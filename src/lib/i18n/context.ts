@@ -0,0 +1,4 @@
+import { createContext } from 'react';
+import { createI18n, DEFAULT_LOCALE } from './i18n';
+
+export const I18nContext = createContext(createI18n(DEFAULT_LOCALE));
@@ -0,0 +1,18 @@
+import type { Direction } from './types';
+
+const RTL_LANGUAGES = ['he', 'iw', 'ar', 'fa', 'ur', 'yi'];
+
+export const languageOf = (locale: string) => locale.split(/[-_]/)[0].toLowerCase();
+
+export const directionOf = (locale: string): Direction => (RTL_LANGUAGES.includes(languageOf(locale)) ? 'rtl' : 'ltr');
+
+// התו ה"חזק" הראשון קובע את כיוון הטקסט (כמו dir="auto"), כדי שגם היישור של הבועה יתאים
+const FIRST_STRONG = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]|[A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF]/;
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+/** כיוון הטקסט לפי התוכן; undefined כשאין בו אותיות (מספרים, אימוג'י) */
+export const detectDirection = (text: string): Direction | undefined => {
+  const match = text.match(FIRST_STRONG);
+  if (!match) return undefined;
+  return RTL_CHAR.test(match[0]) ? 'rtl' : 'ltr';
+};
@@ -0,0 +1,40 @@
+import { he } from './locales/he';
+import { en } from './locales/en';
+import { ar } from './locales/ar';
+import { ru } from './locales/ru';
+import { directionOf, languageOf } from './direction';
+import type { I18n, Messages } from './types';
+
+export const DEFAULT_LOCALE = 'he-IL';
+
+const CATALOGS: Record<string, Messages> = { he, en, ar, ru };
+
+export const SUPPORTED_LANGUAGES = Object.keys(CATALOGS);
+
+/** השפה מההגדרות, ואם אין - מהדפדפן; שפה שאין לה קטלוג נופלת לעברית */
+export const resolveLocale = (preferred?: string) => {
+  const candidates = [preferred, ...(typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [])];
+  return candidates.find((locale): locale is string => !!locale && languageOf(locale) in CATALOGS) ?? DEFAULT_LOCALE;
+};
+
+export const createI18n = (locale: string, overrides: Partial<Messages> = {}): I18n => {
+  const messages = { ...CATALOGS[languageOf(locale)] ?? he, ...overrides };
+  const timeFormat = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' });
+  const dateTimeFormat = new Intl.DateTimeFormat(locale, {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return {
+    locale,
+    dir: directionOf(locale),
+    t: (key, params) =>
+      messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        params && name in params ? String(params[name]) : placeholder
+      ),
+    formatTime: (date) => timeFormat.format(date),
+    formatDateTime: (date) => dateTimeFormat.format(date),
+  };
+};
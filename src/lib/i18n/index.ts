@@ -0,0 +1,4 @@
+export type { Direction, I18n, MessageKey, Messages, Translate } from './types';
+export { createI18n, resolveLocale, DEFAULT_LOCALE, SUPPORTED_LANGUAGES } from './i18n';
+export { detectDirection, directionOf } from './direction';
+export { I18nContext } from './context';
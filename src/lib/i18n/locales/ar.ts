@@ -0,0 +1,101 @@
+import type { Messages } from '../types';
+
+export const ar: Messages = {
+  botName: 'مساعد AI',
+  greeting: 'مرحبًا! أنا هنا لمساعدتك. كيف يمكنني المساعدة؟',
+  online: 'متصل',
+  offline: 'غير متصل',
+  sending: 'جارٍ الإرسال...',
+  sent: 'تم الإرسال',
+  queued: 'بانتظار الإرسال',
+  queuedOffline: 'بانتظار الاتصال',
+  sendFailed: 'لم يتم الإرسال',
+  retry: 'إعادة المحاولة',
+  errorNetwork: 'لا يوجد اتصال بالشبكة',
+  errorTimeout: 'لم يستجب الخادم في الوقت المحدد',
+  errorServer: 'خطأ في الخادم',
+  errorRequest: 'تم رفض الطلب',
+  errorResponse: 'تم استلام رد غير صالح',
+  errorCancelled: 'أُلغي',
+  errorVerification: 'فشل التحقق',
+  conversations: 'المحادثات',
+  closeChat: 'إغلاق',
+  newConversation: 'محادثة جديدة',
+  renameConversation: 'إعادة تسمية',
+  deleteConversation: 'حذف المحادثة',
+  confirmDeleteConversation: 'هل تريد حذف المحادثة؟',
+  inputPlaceholder: 'اكتب رسالة...',
+  dropPlaceholder: 'أفلت هنا للإرفاق...',
+  sendHint: 'Enter للإرسال · Shift+Enter لسطر جديد',
+  attachFile: 'إرفاق ملف',
+  removeFile: 'إزالة الملف',
+  stopResponse: 'إيقاف الرد',
+  startRecording: 'تسجيل صوتي',
+  stopRecording: 'إيقاف التسجيل',
+  readAloud: 'قراءة بصوت عالٍ',
+  stopReading: 'إيقاف القراءة',
+  typing: 'يكتب...',
+  skipTyping: 'انقر لعرض الرد كاملًا',
+  incompleteResponse: 'انقطع الرد وهو غير مكتمل',
+  processingError: 'عذرًا، لم أتمكن من معالجة الرسالة. حاول مرة أخرى.',
+  copy: 'نسخ',
+  copied: 'تم النسخ',
+  edit: 'تعديل',
+  cancel: 'إلغاء',
+  saveAndResend: 'حفظ وإعادة الإرسال',
+  regenerate: 'إعادة إنشاء الرد',
+  helpful: 'رد جيد',
+  notHelpful: 'رد غير جيد',
+  feedbackPlaceholder: 'ما الذي يمكن تحسينه؟ (اختياري)',
+  send: 'إرسال',
+  exportConversation: 'تصدير المحادثة',
+  exportText: 'نص (.txt)',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportHtml: 'صفحة HTML (.html)',
+  printTranscript: 'طباعة',
+  emailTranscript: 'إرسال نص المحادثة إلى بريدي',
+  emailPlaceholder: 'name@example.com',
+  invalidEmail: 'عنوان البريد الإلكتروني غير صالح',
+  transcriptSent: 'تم إرسال نص المحادثة إلى {email}',
+  transcriptFailed: 'تعذر إرسال نص المحادثة، حاول مرة أخرى',
+  transcriptUser: 'العميل',
+  talkToHuman: 'التحدث مع موظف',
+  endAgentChat: 'إنهاء',
+  agent: 'موظف',
+  waitingForAgent: 'نبحث عن موظف متاح...',
+  queuePosition: 'المركز {position} في الطابور',
+  handoffRequested: 'جارٍ تحويلك إلى موظف خدمة',
+  handoffFailed: 'تعذر الوصول إلى موظف، حاول لاحقًا',
+  handoffEnded: 'انتهت المحادثة مع الموظف، سيتابع البوت الرد',
+  agentQueued: 'جميع الموظفين مشغولون حاليًا، سنخدمك حسب الدور',
+  agentJoined: 'انضم {name} إلى المحادثة',
+  agentLeft: 'غادر {name} المحادثة',
+  leadFormTitle: 'قبل أن نبدأ - كيف يمكننا التواصل معك؟',
+  leadName: 'الاسم الكامل',
+  leadPhone: 'الهاتف',
+  leadCompany: 'الشركة',
+  leadEmail: 'البريد الإلكتروني',
+  leadTopic: 'موضوع الاستفسار',
+  leadTopicPlaceholder: 'اختر موضوعًا',
+  leadSubmit: 'متابعة',
+  leadSkip: 'تخطي',
+  leadSaved: 'شكرًا! تم حفظ التفاصيل',
+  fieldRequired: 'حقل إلزامي',
+  invalidPhone: 'رقم هاتف غير صالح (مثال: 050-1234567)',
+  invalidName: 'يرجى إدخال الاسم',
+  unreadMessages: '{count} رسائل جديدة',
+  dismiss: 'إغلاق',
+  leavingSite: 'مغادرة الموقع',
+  leavingSiteHint: 'يؤدي هذا الرابط إلى {host}، وهو موقع لا نتحكم فيه. هل تريد المتابعة؟',
+  continue: 'متابعة',
+  rateLimited: 'أنت ترسل الرسائل بسرعة كبيرة. حاول مرة أخرى بعد {seconds} ثانية',
+  duplicateMessage: 'تم إرسال هذه الرسالة بالفعل',
+  fileUnavailable: 'الملف لم يعد متاحًا',
+  importConversation: 'استيراد محادثة من ملف JSON',
+  importFailed: 'هذا الملف ليس نص محادثة صالحًا',
+  cardDetails: 'التفاصيل',
+  fileTypeNotSupported: 'نوع الملف {name} غير مدعوم',
+  fileTooLarge: 'الملف {name} أكبر من {size}',
+  tooManyFiles: 'يمكن إرفاق {count} ملفات كحد أقصى',
+};
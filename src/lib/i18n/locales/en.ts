@@ -0,0 +1,101 @@
+import type { Messages } from '../types';
+
+export const en: Messages = {
+  botName: 'AI Assistant',
+  greeting: "Hi! I'm here to help. How can I assist you?",
+  online: 'Online',
+  offline: 'Offline',
+  sending: 'Sending...',
+  sent: 'Sent',
+  queued: 'Waiting to send',
+  queuedOffline: 'Waiting for connection',
+  sendFailed: 'Not sent',
+  retry: 'Retry',
+  errorNetwork: 'No network connection',
+  errorTimeout: 'The server did not respond in time',
+  errorServer: 'Server error',
+  errorRequest: 'The request was rejected',
+  errorResponse: 'Received an invalid response',
+  errorCancelled: 'Cancelled',
+  errorVerification: 'Verification failed',
+  conversations: 'Conversations',
+  closeChat: 'Close',
+  newConversation: 'New conversation',
+  renameConversation: 'Rename',
+  deleteConversation: 'Delete conversation',
+  confirmDeleteConversation: 'Delete this conversation?',
+  inputPlaceholder: 'Type a message...',
+  dropPlaceholder: 'Drop here to attach...',
+  sendHint: 'Enter to send · Shift+Enter for a new line',
+  attachFile: 'Attach file',
+  removeFile: 'Remove file',
+  stopResponse: 'Stop response',
+  startRecording: 'Voice input',
+  stopRecording: 'Stop recording',
+  readAloud: 'Read aloud',
+  stopReading: 'Stop reading',
+  typing: 'Typing...',
+  skipTyping: 'Click to show the full reply',
+  incompleteResponse: 'The reply was cut off and is incomplete',
+  processingError: "Sorry, I couldn't process your message. Please try again.",
+  copy: 'Copy',
+  copied: 'Copied',
+  edit: 'Edit',
+  cancel: 'Cancel',
+  saveAndResend: 'Save and resend',
+  regenerate: 'Regenerate answer',
+  helpful: 'Good answer',
+  notHelpful: 'Bad answer',
+  feedbackPlaceholder: 'What could be better? (optional)',
+  send: 'Send',
+  exportConversation: 'Export conversation',
+  exportText: 'Text (.txt)',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportHtml: 'HTML page (.html)',
+  printTranscript: 'Print',
+  emailTranscript: 'Email me the transcript',
+  emailPlaceholder: 'name@example.com',
+  invalidEmail: 'Invalid email address',
+  transcriptSent: 'Transcript sent to {email}',
+  transcriptFailed: 'Could not send the transcript, please try again',
+  transcriptUser: 'Customer',
+  talkToHuman: 'Talk to a human',
+  endAgentChat: 'End',
+  agent: 'Agent',
+  waitingForAgent: 'Looking for an available agent...',
+  queuePosition: 'Position {position} in queue',
+  handoffRequested: 'Transferring you to a human agent',
+  handoffFailed: 'Could not reach an agent, please try again later',
+  handoffEnded: 'The agent chat has ended, the bot will answer from here',
+  agentQueued: 'All agents are busy right now, you will be helped in order',
+  agentJoined: '{name} joined the conversation',
+  agentLeft: '{name} left the conversation',
+  leadFormTitle: 'Before we start - how can we reach you?',
+  leadName: 'Full name',
+  leadPhone: 'Phone',
+  leadCompany: 'Company',
+  leadEmail: 'Email',
+  leadTopic: 'Topic',
+  leadTopicPlaceholder: 'Choose a topic',
+  leadSubmit: 'Continue',
+  leadSkip: 'Skip',
+  leadSaved: 'Thanks! Your details were saved',
+  fieldRequired: 'Required',
+  invalidPhone: 'Invalid phone number (e.g. 050-1234567)',
+  invalidName: 'Please enter your name',
+  unreadMessages: '{count} new messages',
+  dismiss: 'Dismiss',
+  leavingSite: 'Leaving this site',
+  leavingSiteHint: 'This link goes to {host}, which we do not control. Continue?',
+  continue: 'Continue',
+  rateLimited: 'You are sending messages too quickly. Try again in {seconds} seconds',
+  duplicateMessage: 'This message was already sent',
+  fileUnavailable: 'File no longer available',
+  importConversation: 'Import conversation from JSON',
+  importFailed: 'This file is not a valid conversation transcript',
+  cardDetails: 'Details',
+  fileTypeNotSupported: 'The file type of {name} is not supported',
+  fileTooLarge: 'The file {name} is larger than {size}',
+  tooManyFiles: 'You can attach up to {count} files',
+};
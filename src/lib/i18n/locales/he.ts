@@ -0,0 +1,99 @@
+export const he = {
+  botName: 'עוזר AI',
+  greeting: 'שלום! אני כאן לעזור לך. איך אני יכול לסייע?',
+  online: 'מקוון',
+  offline: 'לא מקוון',
+  sending: 'שולח...',
+  sent: 'נשלח',
+  queued: 'ממתין לשליחה',
+  queuedOffline: 'ממתין לחיבור',
+  sendFailed: 'לא נשלח',
+  retry: 'נסה שוב',
+  errorNetwork: 'אין חיבור לרשת',
+  errorTimeout: 'השרת לא הגיב בזמן',
+  errorServer: 'שגיאה בשרת',
+  errorRequest: 'הבקשה נדחתה',
+  errorResponse: 'התקבלה תשובה לא תקינה',
+  errorCancelled: 'בוטל',
+  errorVerification: 'האימות נכשל',
+  conversations: 'שיחות',
+  closeChat: 'סגור',
+  newConversation: 'שיחה חדשה',
+  renameConversation: 'שנה שם',
+  deleteConversation: 'מחק שיחה',
+  confirmDeleteConversation: 'למחוק את השיחה?',
+  inputPlaceholder: 'הקלד הודעה...',
+  dropPlaceholder: 'שחרר כאן לצירוף...',
+  sendHint: 'Enter לשליחה · Shift+Enter לשורה חדשה',
+  attachFile: 'צרף קובץ',
+  removeFile: 'הסר קובץ',
+  stopResponse: 'עצור תשובה',
+  startRecording: 'הקלטה קולית',
+  stopRecording: 'עצור הקלטה',
+  readAloud: 'הקרא בקול',
+  stopReading: 'עצור הקראה',
+  typing: 'מקליד...',
+  skipTyping: 'לחץ להצגת התשובה המלאה',
+  incompleteResponse: 'התשובה נקטעה ואינה שלמה',
+  processingError: 'מצטער, לא הצלחתי לעבד את ההודעה. נסה שוב.',
+  copy: 'העתק',
+  copied: 'הועתק',
+  edit: 'ערוך',
+  cancel: 'ביטול',
+  saveAndResend: 'שמור ושלח',
+  regenerate: 'צור תשובה מחדש',
+  helpful: 'תשובה טובה',
+  notHelpful: 'תשובה לא טובה',
+  feedbackPlaceholder: 'מה אפשר לשפר? (לא חובה)',
+  send: 'שלח',
+  exportConversation: 'ייצוא השיחה',
+  exportText: 'טקסט (.txt)',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportHtml: 'דף HTML (.html)',
+  printTranscript: 'הדפסה',
+  emailTranscript: 'שליחת התמליל למייל',
+  emailPlaceholder: 'name@example.com',
+  invalidEmail: 'כתובת המייל לא תקינה',
+  transcriptSent: 'התמליל נשלח ל-{email}',
+  transcriptFailed: 'שליחת התמליל נכשלה, נסו שוב',
+  transcriptUser: 'לקוח',
+  talkToHuman: 'שיחה עם נציג',
+  endAgentChat: 'סיום',
+  agent: 'נציג',
+  waitingForAgent: 'מחפשים נציג פנוי...',
+  queuePosition: 'מקום {position} בתור',
+  handoffRequested: 'מעבירים את השיחה לנציג אנושי',
+  handoffFailed: 'לא הצלחנו להעביר לנציג, נסו שוב מאוחר יותר',
+  handoffEnded: 'השיחה עם הנציג הסתיימה, הבוט ממשיך לענות',
+  agentQueued: 'כל הנציגים עסוקים כרגע, נחזור אליך לפי הסדר',
+  agentJoined: '{name} הצטרף/ה לשיחה',
+  agentLeft: '{name} עזב/ה את השיחה',
+  leadFormTitle: 'לפני שנתחיל - איך נוכל לחזור אליך?',
+  leadName: 'שם מלא',
+  leadPhone: 'טלפון',
+  leadCompany: 'חברה',
+  leadEmail: 'אימייל',
+  leadTopic: 'נושא הפנייה',
+  leadTopicPlaceholder: 'בחרו נושא',
+  leadSubmit: 'המשך',
+  leadSkip: 'דלג',
+  leadSaved: 'תודה! הפרטים נשמרו',
+  fieldRequired: 'שדה חובה',
+  invalidPhone: 'מספר טלפון לא תקין (למשל 050-1234567)',
+  invalidName: 'נא להזין שם',
+  unreadMessages: '{count} הודעות חדשות',
+  dismiss: 'סגור',
+  leavingSite: 'מעבר לאתר חיצוני',
+  leavingSiteHint: 'הקישור מוביל אל {host}, אתר שאינו באחריותנו. להמשיך?',
+  continue: 'המשך',
+  rateLimited: 'שלחתם הרבה הודעות ברצף. אפשר לשלוח שוב בעוד {seconds} שניות',
+  duplicateMessage: 'ההודעה הזו כבר נשלחה',
+  fileUnavailable: 'הקובץ כבר לא זמין',
+  importConversation: 'ייבוא שיחה מקובץ JSON',
+  importFailed: 'הקובץ אינו תמליל שיחה תקין',
+  cardDetails: 'לפרטים',
+  fileTypeNotSupported: 'סוג הקובץ {name} אינו נתמך',
+  fileTooLarge: 'הקובץ {name} גדול מ-{size}',
+  tooManyFiles: 'אפשר לצרף עד {count} קבצים',
+};
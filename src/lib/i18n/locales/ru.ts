@@ -0,0 +1,101 @@
+import type { Messages } from '../types';
+
+export const ru: Messages = {
+  botName: 'AI-ассистент',
+  greeting: 'Здравствуйте! Я здесь, чтобы помочь. Чем могу быть полезен?',
+  online: 'В сети',
+  offline: 'Не в сети',
+  sending: 'Отправка...',
+  sent: 'Отправлено',
+  queued: 'Ожидает отправки',
+  queuedOffline: 'Ожидание подключения',
+  sendFailed: 'Не отправлено',
+  retry: 'Повторить',
+  errorNetwork: 'Нет подключения к сети',
+  errorTimeout: 'Сервер не ответил вовремя',
+  errorServer: 'Ошибка сервера',
+  errorRequest: 'Запрос отклонён',
+  errorResponse: 'Получен некорректный ответ',
+  errorCancelled: 'Отменено',
+  errorVerification: 'Проверка не пройдена',
+  conversations: 'Беседы',
+  closeChat: 'Закрыть',
+  newConversation: 'Новая беседа',
+  renameConversation: 'Переименовать',
+  deleteConversation: 'Удалить беседу',
+  confirmDeleteConversation: 'Удалить эту беседу?',
+  inputPlaceholder: 'Введите сообщение...',
+  dropPlaceholder: 'Отпустите, чтобы прикрепить...',
+  sendHint: 'Enter — отправить · Shift+Enter — новая строка',
+  attachFile: 'Прикрепить файл',
+  removeFile: 'Удалить файл',
+  stopResponse: 'Остановить ответ',
+  startRecording: 'Голосовой ввод',
+  stopRecording: 'Остановить запись',
+  readAloud: 'Прочитать вслух',
+  stopReading: 'Остановить чтение',
+  typing: 'Печатает...',
+  skipTyping: 'Нажмите, чтобы показать весь ответ',
+  incompleteResponse: 'Ответ прервался и неполон',
+  processingError: 'Извините, не удалось обработать сообщение. Попробуйте ещё раз.',
+  copy: 'Копировать',
+  copied: 'Скопировано',
+  edit: 'Изменить',
+  cancel: 'Отмена',
+  saveAndResend: 'Сохранить и отправить',
+  regenerate: 'Сгенерировать заново',
+  helpful: 'Хороший ответ',
+  notHelpful: 'Плохой ответ',
+  feedbackPlaceholder: 'Что можно улучшить? (необязательно)',
+  send: 'Отправить',
+  exportConversation: 'Экспорт переписки',
+  exportText: 'Текст (.txt)',
+  exportMarkdown: 'Markdown (.md)',
+  exportJson: 'JSON (.json)',
+  exportHtml: 'HTML-страница (.html)',
+  printTranscript: 'Печать',
+  emailTranscript: 'Отправить переписку на почту',
+  emailPlaceholder: 'name@example.com',
+  invalidEmail: 'Некорректный адрес почты',
+  transcriptSent: 'Переписка отправлена на {email}',
+  transcriptFailed: 'Не удалось отправить переписку, попробуйте ещё раз',
+  transcriptUser: 'Клиент',
+  talkToHuman: 'Связаться с оператором',
+  endAgentChat: 'Завершить',
+  agent: 'Оператор',
+  waitingForAgent: 'Ищем свободного оператора...',
+  queuePosition: '{position}-й в очереди',
+  handoffRequested: 'Переводим вас на оператора',
+  handoffFailed: 'Не удалось связаться с оператором, попробуйте позже',
+  handoffEnded: 'Разговор с оператором завершён, дальше отвечает бот',
+  agentQueued: 'Все операторы заняты, мы ответим в порядке очереди',
+  agentJoined: '{name} присоединился к разговору',
+  agentLeft: '{name} покинул разговор',
+  leadFormTitle: 'Прежде чем начать - как с вами связаться?',
+  leadName: 'Имя и фамилия',
+  leadPhone: 'Телефон',
+  leadCompany: 'Компания',
+  leadEmail: 'Эл. почта',
+  leadTopic: 'Тема обращения',
+  leadTopicPlaceholder: 'Выберите тему',
+  leadSubmit: 'Продолжить',
+  leadSkip: 'Пропустить',
+  leadSaved: 'Спасибо! Данные сохранены',
+  fieldRequired: 'Обязательное поле',
+  invalidPhone: 'Неверный номер телефона (например, 050-1234567)',
+  invalidName: 'Введите имя',
+  unreadMessages: 'Новых сообщений: {count}',
+  dismiss: 'Закрыть',
+  leavingSite: 'Переход на внешний сайт',
+  leavingSiteHint: 'Ссылка ведёт на {host}, мы не отвечаем за этот сайт. Продолжить?',
+  continue: 'Продолжить',
+  rateLimited: 'Слишком много сообщений подряд. Повторите через {seconds} с',
+  duplicateMessage: 'Это сообщение уже отправлено',
+  fileUnavailable: 'Файл больше недоступен',
+  importConversation: 'Импортировать разговор из JSON',
+  importFailed: 'Файл не является корректной расшифровкой разговора',
+  cardDetails: 'Подробнее',
+  fileTypeNotSupported: 'Тип файла {name} не поддерживается',
+  fileTooLarge: 'Файл {name} больше {size}',
+  tooManyFiles: 'Можно прикрепить не более {count} файлов',
+};
@@ -0,0 +1,19 @@
+import type { he } from './locales/he';
+
+export type MessageKey = keyof typeof he;
+
+/** קטלוג הודעות לשפה אחת; העברית היא המקור לרשימת המפתחות */
+export type Messages = Record<MessageKey, string>;
+
+export type Direction = 'rtl' | 'ltr';
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export interface I18n {
+  /** תג BCP 47 מלא, למשל he-IL או en-US */
+  locale: string;
+  dir: Direction;
+  t: Translate;
+  formatTime(date: Date): string;
+  formatDateTime(date: Date): string;
+}
@@ -0,0 +1,3 @@
+export type { LeadField, LeadFieldConfig, LeadForm, LeadFormConfig, LeadInfo } from './types';
+export { isValidIsraeliPhone, normalizeIsraeliPhone } from './phone';
+export { hasLeadValues, resolveLeadForm, validateLead } from './validation';
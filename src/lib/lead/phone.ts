@@ -0,0 +1,23 @@
+/**
+ * מספרי טלפון בישראל, בכל כתיב נפוץ: 050-1234567, 050 123 4567, (03) 1234567, +972-50-1234567, 972501234567.
+ * נייד / VoIP (05X, 07X) - 10 ספרות; קווי (02, 03, 04, 08, 09) - 9 ספרות;
+ * מספרי 1-700 / 1-800 - 10 ספרות; מספרי כוכבית (*1234) - 4 ספרות.
+ */
+
+const SEPARATORS = /[\s\-().]/g;
+
+const LOCAL_PATTERNS = [/^0(5\d|7[2-9])\d{7}$/, /^0[23489]\d{7}$/];
+const NATIONAL_PATTERNS = [/^1(700|800|801|599)\d{6}$/, /^\*\d{4}$/];
+
+// +972 / 00972 / 972 - מחליפים בקידומת 0 המקומית (גם כשכתבו +972-0...)
+const toLocal = (value: string) => value.replace(/^(\+|00)?972-?0?/, '0');
+
+/** המספר בפורמט בינלאומי (+972...), מספר ארצי (1-800, כוכבית) כמו שהוא, או null אם לא תקין */
+export const normalizeIsraeliPhone = (input: string): string | null => {
+  const compact = input.replace(SEPARATORS, '');
+  if (NATIONAL_PATTERNS.some((pattern) => pattern.test(compact))) return compact;
+  const local = toLocal(compact);
+  return LOCAL_PATTERNS.some((pattern) => pattern.test(local)) ? `+972${local.slice(1)}` : null;
+};
+
+export const isValidIsraeliPhone = (input: string) => normalizeIsraeliPhone(input) !== null;
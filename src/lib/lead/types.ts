@@ -0,0 +1,31 @@
+import type { LeadField } from '../../types/chat';
+
+export type { LeadField, LeadInfo } from '../../types/chat';
+
+export interface LeadFieldConfig {
+  name: LeadField;
+  required?: boolean;
+  /** תווית במקום המחרוזת מהקטלוג */
+  label?: string;
+}
+
+export interface LeadFormConfig {
+  /** השדות בטופס, לפי הסדר (ברירת מחדל: שם וטלפון חובה, חברה, מייל ונושא) */
+  fields?: (LeadField | LeadFieldConfig)[];
+  /** נושאים לבחירה; בלי רשימה - שדה טקסט חופשי */
+  topics?: string[];
+  /** beforeChat - לפני ההודעה הראשונה; onRequest - רק כשהבוט מבקש (collectLead בתשובה) */
+  trigger?: 'beforeChat' | 'onRequest';
+  /** כפתור "דלג" */
+  allowSkip?: boolean;
+  title?: string;
+}
+
+/** ההגדרות אחרי מילוי ברירות המחדל */
+export interface LeadForm {
+  fields: (LeadFieldConfig & { required: boolean })[];
+  topics: string[];
+  trigger: 'beforeChat' | 'onRequest';
+  allowSkip: boolean;
+  title?: string;
+}
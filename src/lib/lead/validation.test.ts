@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Translate } from '../i18n';
+import { hasLeadValues, resolveLeadForm, validateLead } from './validation';
+
+// מחזיר את המפתח עצמו, כדי לבדוק איזו שגיאה נבחרה
+const t: Translate = (key) => key;
+
+const form = resolveLeadForm();
+
+describe('resolveLeadForm', () => {
+  it('requires name and phone by default', () => {
+    expect(form.fields.filter((field) => field.required).map((field) => field.name)).toEqual(['name', 'phone']);
+    expect(form.trigger).toBe('beforeChat');
+    expect(form.allowSkip).toBe(false);
+  });
+});
+
+describe('validateLead', () => {
+  it('returns the cleaned values when the form is valid', () => {
+    const result = validateLead(
+      { name: '  ישראל ישראלי ', phone: '050-123 4567', email: 'a@b.co', company: '', topic: 'מסועים' },
+      form,
+      t
+    );
+
+    expect(result).toEqual({
+      isValid: true,
+      errors: {},
+      lead: { name: 'ישראל ישראלי', phone: '+972501234567', email: 'a@b.co', topic: 'מסועים' },
+    });
+  });
+
+  it('reports missing required fields', () => {
+    const result = validateLead({ email: 'a@b.co' }, form, t);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual({ name: 'fieldRequired', phone: 'fieldRequired' });
+  });
+
+  it('reports invalid values', () => {
+    const result = validateLead({ name: 'x', phone: '12345', email: 'not-an-email' }, form, t);
+
+    expect(result.errors).toEqual({ name: 'invalidName', phone: 'invalidPhone', email: 'invalidEmail' });
+    expect(result.lead).toEqual({});
+  });
+
+  it.each([
+    ['+972-50-1234567', '+972501234567'],
+    ['(03) 1234567', '+97231234567'],
+    ['1-800-123456', '1800123456'],
+    ['*1234', '*1234'],
+  ])('normalizes the phone %s', (phone, normalized) => {
+    expect(validateLead({ name: 'Dana', phone }, form, t).lead.phone).toBe(normalized);
+  });
+
+  it('ignores fields that are not in the form', () => {
+    const nameOnly = resolveLeadForm({ fields: [{ name: 'name', required: true }] });
+
+    expect(validateLead({ name: 'Dana', phone: 'bad' }, nameOnly, t)).toEqual({
+      isValid: true,
+      errors: {},
+      lead: { name: 'Dana' },
+    });
+  });
+});
+
+describe('hasLeadValues', () => {
+  it('is false for a skipped form', () => {
+    expect(hasLeadValues(undefined)).toBe(false);
+    expect(hasLeadValues({})).toBe(false);
+    expect(hasLeadValues({ name: '  ' })).toBe(false);
+    expect(hasLeadValues({ phone: '+972501234567' })).toBe(true);
+  });
+});
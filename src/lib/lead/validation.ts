@@ -0,0 +1,62 @@
+import type { Translate } from '../i18n';
+import { normalizeIsraeliPhone } from './phone';
+import type { LeadField, LeadForm, LeadFormConfig, LeadInfo } from './types';
+
+const DEFAULT_FIELDS: LeadFormConfig['fields'] = [
+  { name: 'name', required: true },
+  { name: 'phone', required: true },
+  'company',
+  'email',
+  'topic',
+];
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const resolveLeadForm = (config: LeadFormConfig = {}): LeadForm => ({
+  fields: (config.fields ?? DEFAULT_FIELDS).map((field) =>
+    typeof field === 'string' ? { name: field, required: false } : { ...field, required: !!field.required }
+  ),
+  topics: config.topics ?? [],
+  trigger: config.trigger ?? 'beforeChat',
+  allowSkip: !!config.allowSkip,
+  title: config.title,
+});
+
+export const hasLeadValues = (lead?: LeadInfo) => !!lead && Object.values(lead).some((value) => !!value?.trim());
+
+/**
+ * בדיקת הטופס; מחזיר את הערכים אחרי ניקוי (טלפון בפורמט +972) ושגיאה לכל שדה לא תקין.
+ * שם חייב לכלול לפחות שתי אותיות בכל שפה.
+ */
+export const validateLead = (values: LeadInfo, form: LeadForm, t: Translate) => {
+  const lead: LeadInfo = {};
+  const errors: Partial<Record<LeadField, string>> = {};
+
+  for (const { name, required } of form.fields) {
+    const value = values[name]?.trim() ?? '';
+    if (!value) {
+      if (required) errors[name] = t('fieldRequired');
+      continue;
+    }
+    switch (name) {
+      case 'phone': {
+        const phone = normalizeIsraeliPhone(value);
+        if (phone) lead.phone = phone;
+        else errors.phone = t('invalidPhone');
+        break;
+      }
+      case 'email':
+        if (EMAIL_REGEX.test(value)) lead.email = value;
+        else errors.email = t('invalidEmail');
+        break;
+      case 'name':
+        if ((value.match(/\p{L}/gu)?.length ?? 0) >= 2) lead.name = value;
+        else errors.name = t('invalidName');
+        break;
+      default:
+        lead[name] = value;
+    }
+  }
+
+  return { lead, errors, isValid: Object.keys(errors).length === 0 };
+};
@@ -0,0 +1,15 @@
+import { createContext } from 'react';
+import { DEFAULT_LINK_POLICY } from './policy';
+import type { LinkPolicy } from './types';
+
+export interface LinkPolicyContextValue {
+  policy: LinkPolicy;
+  /** הצגת חלון האישור לפני מעבר לאתר חיצוני */
+  confirmExternal: (href: string, host: string) => void;
+}
+
+// מחוץ לצ'אט אין חלון אישור - הקישור נפתח בטאב חדש
+export const LinkPolicyContext = createContext<LinkPolicyContextValue>({
+  policy: DEFAULT_LINK_POLICY,
+  confirmExternal: (href) => window.open(href, '_blank', 'noopener,noreferrer'),
+});
@@ -0,0 +1,3 @@
+export type { LinkDecision, LinkPolicy, LinkPolicyConfig } from './types';
+export { DEFAULT_LINK_POLICY, evaluateLink, resolveLinkPolicy } from './policy';
+export { LinkPolicyContext, type LinkPolicyContextValue } from './context';
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { evaluateLink, resolveLinkPolicy } from './policy';
+
+const policy = resolveLinkPolicy({ internalDomains: ['example.co.il'] });
+
+describe('evaluateLink', () => {
+  beforeEach(() => {
+    // העמוד שהצ'אט מוטמע בו
+    vi.stubGlobal('location', { hostname: 'shop.test' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each(['javascript:alert(1)', 'data:text/html,<script>', 'not a url', 'ftp://example.com/file'])(
+    'blocks %s',
+    (href) => {
+      expect(evaluateLink(href, policy)).toEqual({ action: 'block' });
+    }
+  );
+
+  it('blocks credentials in the URL', () => {
+    expect(evaluateLink('https://bank.com@evil.com/login', policy)).toEqual({ action: 'block' });
+  });
+
+  it('opens mailto and tel links as contact links', () => {
+    expect(evaluateLink('mailto:info@example.co.il', policy)).toEqual({
+      action: 'contact',
+      href: 'mailto:info@example.co.il',
+    });
+    expect(evaluateLink('tel:+972501234567', policy).action).toBe('contact');
+  });
+
+  it('treats internal domains, their subdomains and the host page as internal', () => {
+    expect(evaluateLink('https://www.example.co.il/products', policy).action).toBe('internal');
+    expect(evaluateLink('https://shop.example.co.il/', policy).action).toBe('internal');
+    expect(evaluateLink('https://shop.test/cart', policy).action).toBe('internal');
+  });
+
+  it('does not match a domain that only ends with an internal domain name', () => {
+    expect(evaluateLink('https://evil-example.co.il/', policy)).toEqual({
+      action: 'external',
+      href: 'https://evil-example.co.il/',
+      host: 'evil-example.co.il',
+      confirm: true,
+    });
+  });
+
+  it('blocks blocked domains even when they are allowed', () => {
+    const strict = resolveLinkPolicy({ allowedDomains: ['partner.com'], blockedDomains: ['ads.partner.com'] });
+
+    expect(evaluateLink('https://partner.com/', strict).action).toBe('external');
+    expect(evaluateLink('https://ads.partner.com/', strict).action).toBe('block');
+    expect(evaluateLink('https://other.com/', strict).action).toBe('block');
+  });
+
+  it('skips the confirmation when the policy turns it off', () => {
+    const decision = evaluateLink('https://other.com/', resolveLinkPolicy({ confirmExternal: false }));
+
+    expect(decision).toMatchObject({ action: 'external', confirm: false });
+  });
+});
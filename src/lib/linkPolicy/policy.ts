@@ -0,0 +1,52 @@
+import type { LinkDecision, LinkPolicy, LinkPolicyConfig } from './types';
+
+export const DEFAULT_LINK_POLICY: LinkPolicy = {
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+  allowedDomains: [],
+  blockedDomains: [],
+  internalDomains: ['yahav-hamias.co.il'],
+  confirmExternal: true,
+};
+
+export const resolveLinkPolicy = (config: LinkPolicyConfig = {}): LinkPolicy => ({
+  allowedSchemes: config.allowedSchemes ?? DEFAULT_LINK_POLICY.allowedSchemes,
+  allowedDomains: config.allowedDomains ?? DEFAULT_LINK_POLICY.allowedDomains,
+  blockedDomains: config.blockedDomains ?? DEFAULT_LINK_POLICY.blockedDomains,
+  internalDomains: config.internalDomains ?? DEFAULT_LINK_POLICY.internalDomains,
+  confirmExternal: config.confirmExternal ?? DEFAULT_LINK_POLICY.confirmExternal,
+});
+
+const normalizeHost = (host: string) => host.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+
+// הדומיין עצמו וכל תת-דומיין שלו; evil-yahav-hamias.co.il לא תואם ל-yahav-hamias.co.il
+const matchesDomain = (host: string, domains: string[]) =>
+  domains.some((domain) => {
+    const normalized = normalizeHost(domain);
+    return host === normalized || host.endsWith(`.${normalized}`);
+  });
+
+/**
+ * הכרעה על קישור מתשובת הבוט. ה-href מגיע מהמודל, ולכן מ-prompt injection: קישור לא תקין,
+ * scheme שלא ברשימה, שם משתמש בכתובת (https://bank.com@evil.com) או דומיין חסום - לא לחיצים.
+ */
+export const evaluateLink = (href: string, policy: LinkPolicy): LinkDecision => {
+  let url: URL;
+  try {
+    url = new URL(href.trim());
+  } catch {
+    return { action: 'block' };
+  }
+
+  const scheme = url.protocol.slice(0, -1).toLowerCase();
+  if (!policy.allowedSchemes.map((item) => item.toLowerCase().replace(/:$/, '')).includes(scheme)) {
+    return { action: 'block' };
+  }
+  if (scheme !== 'http' && scheme !== 'https') return { action: 'contact', href: url.href };
+  if (url.username || url.password) return { action: 'block' };
+
+  const host = normalizeHost(url.hostname);
+  if (matchesDomain(host, policy.blockedDomains)) return { action: 'block' };
+  if (matchesDomain(host, [...policy.internalDomains, location.hostname])) return { action: 'internal', href: url.href };
+  if (policy.allowedDomains.length > 0 && !matchesDomain(host, policy.allowedDomains)) return { action: 'block' };
+  return { action: 'external', href: url.href, host: url.hostname, confirm: policy.confirmExternal };
+};
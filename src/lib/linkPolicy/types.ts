@@ -0,0 +1,22 @@
+export interface LinkPolicyConfig {
+  /** schemes מותרים (ברירת מחדל: http, https, mailto, tel); כל השאר - למשל javascript: - מוצגים כטקסט */
+  allowedSchemes?: string[];
+  /** כשמוגדר - רק קישורים לדומיינים האלה (ולדומיינים הפנימיים) לחיצים */
+  allowedDomains?: string[];
+  /** דומיינים חסומים - גוברים על allowedDomains */
+  blockedDomains?: string[];
+  /** האתר שלנו: נפתח באותו טאב ובלי אישור. הדומיין של העמוד הנוכחי תמיד נחשב פנימי */
+  internalDomains?: string[];
+  /** חלון "אתם עוברים ל-X" לפני קישור לאתר חיצוני (ברירת מחדל: true) */
+  confirmExternal?: boolean;
+}
+
+export type LinkPolicy = Required<LinkPolicyConfig>;
+
+/** מה עושים עם קישור שהגיע מהבוט */
+export type LinkDecision =
+  | { action: 'block' }
+  /** mailto / tel - נפתח באפליקציה המתאימה */
+  | { action: 'contact'; href: string }
+  | { action: 'internal'; href: string }
+  | { action: 'external'; href: string; host: string; confirm: boolean };
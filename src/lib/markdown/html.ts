@@ -0,0 +1,70 @@
+import type { BlockNode, InlineNode } from './types';
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// בקובץ שיוצא מהדפדפן אין את ההגנה של React - קישור עם scheme אחר מוצג כטקסט
+const SAFE_HREF = /^(https?:|mailto:|tel:)/i;
+
+const inlineHtml = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.value);
+        case 'strong':
+          return `<strong>${inlineHtml(node.children)}</strong>`;
+        case 'emphasis':
+          return `<em>${inlineHtml(node.children)}</em>`;
+        case 'strike':
+          return `<del>${inlineHtml(node.children)}</del>`;
+        case 'code':
+          return `<code dir="ltr">${escapeHtml(node.value)}</code>`;
+        case 'link':
+          return SAFE_HREF.test(node.href)
+            ? `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${inlineHtml(node.children)}</a>`
+            : inlineHtml(node.children);
+        case 'break':
+          return '<br>';
+      }
+    })
+    .join('');
+
+const cellStyle = (align: string | null) => (align ? ` style="text-align:${align}"` : '');
+
+/** העץ כ-HTML סטטי - לתמליל השיחה המודפס */
+export const toHtml = (blocks: BlockNode[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return `<p dir="auto">${inlineHtml(block.children)}</p>`;
+        case 'heading': {
+          const tag = `h${Math.min(block.level + 2, 6)}`;
+          return `<${tag} dir="auto">${inlineHtml(block.children)}</${tag}>`;
+        }
+        case 'list': {
+          const items = block.items.map((item) => `<li dir="auto">${toHtml(item)}</li>`).join('');
+          return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+        }
+        case 'codeBlock':
+          return `<pre dir="ltr"><code>${escapeHtml(block.value)}</code></pre>`;
+        case 'blockquote':
+          return `<blockquote>${toHtml(block.children)}</blockquote>`;
+        case 'table': {
+          const header = block.header
+            .map((cell, column) => `<th dir="auto"${cellStyle(block.align[column])}>${inlineHtml(cell)}</th>`)
+            .join('');
+          const rows = block.rows
+            .map(
+              (row) =>
+                `<tr>${row.map((cell, column) => `<td dir="auto"${cellStyle(block.align[column])}>${inlineHtml(cell)}</td>`).join('')}</tr>`
+            )
+            .join('');
+          return `<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+        }
+        case 'thematicBreak':
+          return '<hr>';
+      }
+    })
+    .join('\n');
@@ -0,0 +1,6 @@
+export * from './types';
+export { parseInline } from './parseInline';
+export { parseMarkdown } from './parseMarkdown';
+export { truncateBlocks, visibleLength } from './truncate';
+export { toPlainText } from './plainText';
+export { toHtml, escapeHtml } from './html';
@@ -0,0 +1,122 @@
+import type { InlineNode } from './types';
+
+const URL_REGEX = /^https?:\/\/[^\s<>]+/;
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+interface DelimiterRule {
+  marker: string;
+  type: 'strong' | 'emphasis' | 'strike';
+  /** _ ו-__ לא נחשבים הדגשה בתוך מילה (snake_case, מק"טים) */
+  intraword: boolean;
+}
+
+const DELIMITERS: DelimiterRule[] = [
+  { marker: '**', type: 'strong', intraword: true },
+  { marker: '__', type: 'strong', intraword: false },
+  { marker: '~~', type: 'strike', intraword: true },
+  { marker: '*', type: 'emphasis', intraword: true },
+  { marker: '_', type: 'emphasis', intraword: false },
+];
+
+const findClosing = (text: string, rule: DelimiterRule, from: number) => {
+  let index = text.indexOf(rule.marker, from);
+  while (index !== -1) {
+    const before = text[index - 1];
+    const after = text[index + rule.marker.length];
+    const validClose = before !== ' ' && (rule.intraword || !isWordChar(after));
+    // "**" לא נסגר ע"י "*" בודד שהוא חלק מ-"**"
+    const partOfLonger = rule.marker.length === 1 && (after === rule.marker || before === rule.marker);
+    if (index > from && validClose && !partOfLonger) return index;
+    index = text.indexOf(rule.marker, index + 1);
+  }
+  return -1;
+};
+
+/** פירוק טקסט של שורה/פסקה לצמתים: הדגשות, קוד, קישורי markdown וכתובות חשופות */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', value: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < text.length && /[\\`*_~[\]()#>|-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', value: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const match = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest);
+      if (match) {
+        flush();
+        nodes.push({ type: 'link', href: match[2], children: parseInline(match[1]), bare: false });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const match = URL_REGEX.exec(rest);
+      if (match) {
+        const url = match[0].replace(TRAILING_PUNCTUATION, '');
+        flush();
+        nodes.push({ type: 'link', href: url, children: [{ type: 'text', value: url }], bare: true });
+        i += url.length;
+        continue;
+      }
+    }
+
+    const rule = DELIMITERS.find((candidate) => rest.startsWith(candidate.marker));
+    if (rule) {
+      const opensWord = rule.intraword || !isWordChar(text[i - 1]);
+      const next = text[i + rule.marker.length];
+      if (opensWord && next && next !== ' ') {
+        const close = findClosing(text, rule, i + rule.marker.length);
+        if (close !== -1) {
+          flush();
+          nodes.push({ type: rule.type, children: parseInline(text.slice(i + rule.marker.length, close)) });
+          i = close + rule.marker.length;
+          continue;
+        }
+      }
+      buffer += rule.marker;
+      i += rule.marker.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
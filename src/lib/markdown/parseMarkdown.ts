@@ -0,0 +1,166 @@
+import { parseInline } from './parseInline';
+import type { BlockNode, TableAlign } from './types';
+
+const FENCE = /^\s*(```|~~~)\s*([\w-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const THEMATIC_BREAK = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const splitRow = (line: string) => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_SEPARATOR.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, i)
+  );
+};
+
+const parseLines = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      // בלוק קוד שלא נסגר (למשל באמצע סטרימינג) נמשך עד סוף הטקסט
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'codeBlock', lang: fence[2], value: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      i += 2;
+      const rows: string[][] = [];
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        rows.push(splitRow(lines[i]));
+        i++;
+      }
+      blocks.push({
+        type: 'table',
+        align: header.map((_, column) => align[column] ?? null),
+        header: header.map(parseInline),
+        rows: rows.map((row) => header.map((_, column) => parseInline(row[column] ?? ''))),
+      });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const indent = listItem[1].length;
+      const ordered = /\d/.test(listItem[2]);
+      const items: BlockNode[][] = [];
+
+      const sameListItem = (candidate: string | undefined) => {
+        const match = candidate === undefined ? null : LIST_ITEM.exec(candidate);
+        return match && match[1].length === indent && /\d/.test(match[2]) === ordered ? match : null;
+      };
+
+      while (i < lines.length) {
+        // שורה ריקה בין פריטים לא שוברת את הרשימה
+        if (isBlank(lines[i]) && sameListItem(lines[i + 1])) {
+          i++;
+          continue;
+        }
+        const item = sameListItem(lines[i]);
+        if (!item) break;
+        const content = [item[3]];
+        i++;
+        // שורות המשך ותתי-רשימות - כל מה שמוזח יותר מהפריט
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            const following = lines[i + 1];
+            if (following === undefined || following.search(/\S/) <= indent) break;
+            content.push('');
+            i++;
+            continue;
+          }
+          const nextIndent = next.search(/\S/);
+          if (nextIndent <= indent && (LIST_ITEM.test(next) || startsBlock(lines, i))) break;
+          content.push(nextIndent > indent ? next.slice(Math.min(nextIndent, indent + 2)) : next.trim());
+          i++;
+        }
+        items.push(parseLines(content));
+      }
+
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+/** פירוק טקסט Markdown לעץ בלוקים (פסקאות, כותרות, רשימות, טבלאות, קוד וציטוטים) */
+export const parseMarkdown = (text: string): BlockNode[] => parseLines(text.replace(/\r\n?/g, '\n').split('\n'));
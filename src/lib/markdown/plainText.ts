@@ -0,0 +1,41 @@
+import type { BlockNode, InlineNode } from './types';
+
+const inlineText = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.value;
+        case 'break':
+          return '\n';
+        case 'link':
+          return node.bare ? '' : inlineText(node.children);
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join('');
+
+/** הטקסט של העץ בלי סימוני Markdown - להקראה ולהעתקה */
+export const toPlainText = (blocks: BlockNode[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+          return inlineText(block.children);
+        case 'list':
+          return block.items.map((item) => toPlainText(item)).join('\n');
+        case 'codeBlock':
+          return block.value;
+        case 'blockquote':
+          return toPlainText(block.children);
+        case 'table':
+          return [block.header, ...block.rows].map((row) => row.map(inlineText).join(', ')).join('\n');
+        case 'thematicBreak':
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
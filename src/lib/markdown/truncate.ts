@@ -0,0 +1,132 @@
+import type { BlockNode, InlineNode } from './types';
+
+// אורך "נראה" של העץ: תווים של טקסט וקוד; קישור חשוף, שבירת שורה וקו מפריד נחשבים יחידה אחת
+
+const inlineLength = (nodes: InlineNode[]): number =>
+  nodes.reduce((sum, node) => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return sum + node.value.length;
+      case 'link':
+        return sum + (node.bare ? 1 : inlineLength(node.children));
+      case 'break':
+        return sum + 1;
+      default:
+        return sum + inlineLength(node.children);
+    }
+  }, 0);
+
+const blockLength = (block: BlockNode): number => {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+      return inlineLength(block.children);
+    case 'list':
+      return block.items.reduce((sum, item) => sum + visibleLength(item), 0);
+    case 'codeBlock':
+      return block.value.length;
+    case 'blockquote':
+      return visibleLength(block.children);
+    case 'table':
+      return [block.header, ...block.rows].reduce(
+        (sum, row) => sum + row.reduce((rowSum, cell) => rowSum + inlineLength(cell), 0),
+        0
+      );
+    case 'thematicBreak':
+      return 1;
+  }
+};
+
+export const visibleLength = (blocks: BlockNode[]): number =>
+  blocks.reduce((sum, block) => sum + blockLength(block), 0);
+
+interface Budget {
+  remaining: number;
+}
+
+const truncateInline = (nodes: InlineNode[], budget: Budget): InlineNode[] => {
+  const result: InlineNode[] = [];
+  for (const node of nodes) {
+    if (budget.remaining <= 0) break;
+    switch (node.type) {
+      case 'text':
+      case 'code': {
+        const value = node.value.slice(0, budget.remaining);
+        budget.remaining -= value.length;
+        result.push({ ...node, value });
+        break;
+      }
+      case 'break':
+        budget.remaining -= 1;
+        result.push(node);
+        break;
+      case 'link':
+        if (node.bare) {
+          budget.remaining -= 1;
+          result.push(node);
+        } else {
+          // הכפתור מופיע מיד והטקסט שלו מוקלד בהדרגה
+          result.push({ ...node, children: truncateInline(node.children, budget) });
+        }
+        break;
+      default:
+        result.push({ ...node, children: truncateInline(node.children, budget) });
+    }
+  }
+  return result;
+};
+
+const truncateRows = (rows: InlineNode[][][], budget: Budget) => {
+  const result: InlineNode[][][] = [];
+  for (const row of rows) {
+    if (budget.remaining <= 0) break;
+    result.push(row.map((cell) => truncateInline(cell, budget)));
+  }
+  return result;
+};
+
+const truncateList = (blocks: BlockNode[], budget: Budget): BlockNode[] => {
+  const result: BlockNode[] = [];
+  for (const block of blocks) {
+    if (budget.remaining <= 0) break;
+    switch (block.type) {
+      case 'paragraph':
+      case 'heading':
+        result.push({ ...block, children: truncateInline(block.children, budget) });
+        break;
+      case 'list': {
+        const items: BlockNode[][] = [];
+        for (const item of block.items) {
+          if (budget.remaining <= 0) break;
+          items.push(truncateList(item, budget));
+        }
+        result.push({ ...block, items });
+        break;
+      }
+      case 'codeBlock': {
+        const value = block.value.slice(0, budget.remaining);
+        budget.remaining -= value.length;
+        result.push({ ...block, value });
+        break;
+      }
+      case 'blockquote':
+        result.push({ ...block, children: truncateList(block.children, budget) });
+        break;
+      case 'table': {
+        const [header] = truncateRows([block.header], budget);
+        result.push({ ...block, header, rows: truncateRows(block.rows, budget) });
+        break;
+      }
+      case 'thematicBreak':
+        budget.remaining -= 1;
+        result.push(block);
+        break;
+    }
+  }
+  return result;
+};
+
+/** העץ כפי שהוא נראה אחרי count תווים - משמש את אנימציית ההקלדה */
+export const truncateBlocks = (blocks: BlockNode[], count: number): BlockNode[] =>
+  truncateList(blocks, { remaining: count });
@@ -0,0 +1,21 @@
+// עץ המסמך שנוצר מהטקסט של הבוט - משמש גם לרינדור הסופי וגם לאנימציית ההקלדה
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'strike'; children: InlineNode[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: InlineNode[]; bare: boolean }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'right' | 'center' | null;
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'codeBlock'; lang: string; value: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'thematicBreak' };
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '../types/chat';
+import { mergeMessages } from './mergeMessages';
+
+const message = (id: string, text: string, isUser: boolean, time = 0): Message => ({
+  id,
+  text,
+  isUser,
+  timestamp: new Date(time),
+});
+
+const ids = (messages: Message[]) => messages.map((msg) => msg.id);
+
+describe('mergeMessages', () => {
+  it('keeps the local greeting before the server history', () => {
+    const local = [message('greeting', 'Welcome!', false)];
+    const server = [
+      message('s1', 'hi', true),
+      message('s2', 'hello', false),
+      message('s3', 'price?', true),
+      message('s4', '100', false),
+    ];
+
+    expect(ids(mergeMessages(local, server))).toEqual(['greeting', 's1', 's2', 's3', 's4']);
+  });
+
+  it('keeps the local version of messages that exist in both sources', () => {
+    const local = [message('u1', 'hi', true, 1000), message('b1', 'hello ', false, 2000)];
+    const server = [message('s1', 'hi', true), message('s2', 'hello', false)];
+
+    const merged = mergeMessages(local, server);
+
+    expect(merged).toEqual(local);
+  });
+
+  it('keeps server-only messages in server order and local-only messages next to their neighbours', () => {
+    const local = [
+      message('greeting', 'Welcome!', false),
+      message('u1', 'hi', true),
+      message('b1', 'hello', false),
+      message('error', 'Something went wrong', false),
+      message('u2', 'new question', true),
+    ];
+    const server = [
+      message('s0', 'older', true),
+      message('s1', 'older answer', false),
+      message('s2', 'hi', true),
+      message('s3', 'hello', false),
+      message('s4', 'follow-up', false),
+    ];
+
+    expect(ids(mergeMessages(local, server))).toEqual(['greeting', 's0', 's1', 'u1', 'b1', 's4', 'error', 'u2']);
+  });
+
+  it('gives server-only messages the timestamp of the message before them', () => {
+    const local = [message('u1', 'hi', true, 5000)];
+    const server = [message('s1', 'hi', true), message('s2', 'hello', false, 99_000)];
+
+    const [, answer] = mergeMessages(local, server);
+
+    expect(answer.timestamp.getTime()).toBe(5000);
+  });
+
+  it('matches repeated texts in order instead of reusing the first match', () => {
+    const local = [message('u1', 'yes', true), message('b1', 'ok', false), message('u2', 'yes', true)];
+    const server = [message('s1', 'yes', true), message('s2', 'ok', false), message('s3', 'yes', true)];
+
+    expect(ids(mergeMessages(local, server))).toEqual(['u1', 'b1', 'u2']);
+  });
+});
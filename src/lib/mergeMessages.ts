@@ -0,0 +1,37 @@
+import type { Message } from '../types/chat';
+
+const isSameMessage = (a: Message, b: Message) =>
+  a.id === b.id || (a.isUser === b.isUser && a.text.trim() === b.text.trim());
+
+/**
+ * מיזוג היסטוריה מהשרת עם ההודעות השמורות מקומית.
+ * הסדר נקבע לפי השרת; הודעה שקיימת בשני המקורות נשמרת בגרסה המקומית (id וזמן מקוריים).
+ * הודעות שקיימות רק מקומית בתחילת השיחה (ברכה) נשארות לפני ההיסטוריה מהשרת;
+ * שאר ההודעות המקומיות בלבד (שגיאות, הודעות חדשות) נשארות במקומן ביחס להודעות המקומיות שסביבן,
+ * והודעות שקיימות רק בשרת נשארות במקומן בסדר של השרת.
+ */
+export const mergeMessages = (local: Message[], server: Message[]): Message[] => {
+  // הפתיחה המקומית - הודעות הבוט שלפני הודעת המשתמש הראשונה ולפני ההודעה המשותפת הראשונה
+  const leadingEnd = local.findIndex((msg) => msg.isUser || server.some((remote) => isSameMessage(msg, remote)));
+  let cursor = leadingEnd === -1 ? local.length : leadingEnd;
+  const used = new Set<string>();
+  const merged: Message[] = local.slice(0, cursor);
+
+  for (const remote of server) {
+    const index = local.findIndex((msg, i) => i >= cursor && !used.has(msg.id) && isSameMessage(msg, remote));
+    if (index !== -1) {
+      // הודעות מקומיות בלבד שקדמו להודעה המשותפת נכנסות לפניה
+      merged.push(...local.slice(cursor, index));
+      used.add(local[index].id);
+      cursor = index + 1;
+      merged.push(local[index]);
+    } else {
+      // לשרת אין זמנים - הודעה מהשרת מקבלת זמן של הודעה קיימת, כדי שלא תיראה חדשה יותר ממה שהיא
+      const previous = merged[merged.length - 1] ?? local[cursor];
+      merged.push(previous ? { ...remote, timestamp: previous.timestamp } : remote);
+    }
+  }
+
+  merged.push(...local.slice(cursor));
+  return merged;
+};
@@ -0,0 +1,10 @@
+/**
+ * השדות שמותר לשלוח ב-metadata. כל שדה אחר - גם מ-setContext של האתר המארח - מסונן,
+ * כדי שמידע רגיש (טוקנים, פרטי חשבון) לא יגיע ל-webhook בטעות.
+ */
+export const DEFAULT_CONTEXT_ALLOW_LIST = ['locale', 'lead', 'url', 'title', 'referrer', 'utm', 'product', 'section'];
+
+export const filterContext = (fields: Record<string, unknown>, allowList: readonly string[]) =>
+  Object.fromEntries(
+    Object.entries(fields).filter(([key, value]) => allowList.includes(key) && value !== undefined && value !== null)
+  );
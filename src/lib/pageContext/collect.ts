@@ -0,0 +1,42 @@
+/** פרטי העמוד שהמבקר נמצא בו - נאספים מחדש בכל בקשה, כי ב-SPA הכתובת משתנה בלי טעינה */
+export interface PageContext {
+  url: string;
+  title: string;
+  /** האתר שממנו הגיע המבקר - בלי נתיב ופרמטרים */
+  referrer?: string;
+  /** פרמטרי utm_* מהכתובת, בלי הקידומת: { source, medium, campaign } */
+  utm?: Record<string, string>;
+}
+
+const UTM_PREFIX = 'utm_';
+
+// רק פרמטרי UTM נשארים בכתובת; שאר הפרמטרים וה-hash יכולים להכיל טוקנים ופרטים אישיים
+const sanitizeUrl = (href: string) => {
+  const url = new URL(href);
+  const kept = [...url.searchParams].filter(([key]) => key.startsWith(UTM_PREFIX));
+  url.search = new URLSearchParams(kept).toString();
+  url.hash = '';
+  return url.toString();
+};
+
+const referrerOrigin = (referrer: string) => {
+  try {
+    return referrer ? new URL(referrer).origin : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const collectPageContext = (): PageContext => {
+  const utm = Object.fromEntries(
+    [...new URLSearchParams(location.search)]
+      .filter(([key, value]) => key.startsWith(UTM_PREFIX) && value)
+      .map(([key, value]) => [key.slice(UTM_PREFIX.length), value])
+  );
+  return {
+    url: sanitizeUrl(location.href),
+    title: document.title,
+    referrer: referrerOrigin(document.referrer),
+    utm: Object.keys(utm).length > 0 ? utm : undefined,
+  };
+};
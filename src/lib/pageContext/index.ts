@@ -0,0 +1,2 @@
+export { collectPageContext, type PageContext } from './collect';
+export { DEFAULT_CONTEXT_ALLOW_LIST, filterContext } from './allowList';
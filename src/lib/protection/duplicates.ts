@@ -0,0 +1,17 @@
+import type { Message } from '../../types/chat';
+
+export const DEFAULT_DUPLICATE_WINDOW_MS = 30_000;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** אותו טקסט כמו הודעת המשתמש האחרונה, שנשלחה לפני פחות מ-windowMs (הדבקה כפולה, לחיצות חוזרות) */
+export const isDuplicateMessage = (text: string, messages: Message[], windowMs: number, now = Date.now()) => {
+  if (windowMs <= 0 || !text.trim()) return false;
+  const last = messages.reduce<Message | undefined>((found, msg) => (msg.isUser ? msg : found), undefined);
+  return (
+    !!last &&
+    last.status !== 'failed' &&
+    normalize(last.text) === normalize(text) &&
+    now - last.timestamp.getTime() < windowMs
+  );
+};
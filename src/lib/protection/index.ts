@@ -0,0 +1,5 @@
+export type { HumanVerifier, ProtectionConfig, RateLimitConfig } from './types';
+export { createRateLimiter, DEFAULT_RATE_LIMIT, type RateLimiter } from './rateLimit';
+export { DEFAULT_DUPLICATE_WINDOW_MS, isDuplicateMessage } from './duplicates';
+export { requestVerificationToken } from './verify';
+export { createMockVerifier } from './mockVerifier';
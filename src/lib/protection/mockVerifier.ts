@@ -0,0 +1,23 @@
+import { ulid } from 'ulid';
+import type { HumanVerifier } from './types';
+
+interface MockVerifierOptions {
+  delayMs?: number;
+  /** דימוי כישלון אימות */
+  fail?: boolean;
+}
+
+// מאמת מקומי לפיתוח ולבדיקות - מחזיר טוקן מזויף בלי לפנות לשירות חיצוני
+export const createMockVerifier = ({ delayMs = 200, fail = false }: MockVerifierOptions = {}): HumanVerifier => ({
+  getToken: (action, signal) =>
+    new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (fail) reject(new Error('Mock verification failed'));
+        else resolve(`mock-${action}-${ulid()}`);
+      }, delayMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    }),
+});
@@ -0,0 +1,44 @@
+import type { RateLimitConfig } from './types';
+
+const STORAGE_KEY = 'chat_rate_limit';
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  maxMessages: 8,
+  windowMs: 60_000,
+};
+
+export interface RateLimiter {
+  /** 0 - אפשר לשלוח; אחרת - כמה זמן לחכות */
+  retryAfter(now?: number): number;
+  record(now?: number): void;
+}
+
+// זמני השליחה נשמרים ב-sessionStorage: רענון העמוד או שיחה חדשה לא מאפסים את המגבלה
+const readTimestamps = (): number[] => {
+  try {
+    const value = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(value) ? value.filter((item) => typeof item === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+/** חלון נע: עד maxMessages הודעות ב-windowMs האחרונים */
+export const createRateLimiter = ({ maxMessages, windowMs }: RateLimitConfig): RateLimiter => {
+  const recent = (now: number) => readTimestamps().filter((time) => now - time < windowMs);
+
+  return {
+    retryAfter(now = Date.now()) {
+      const timestamps = recent(now);
+      if (timestamps.length < maxMessages) return 0;
+      return timestamps[timestamps.length - maxMessages] + windowMs - now;
+    },
+    record(now = Date.now()) {
+      try {
+        sessionStorage.setItem(STORAGE_KEY, JSON.stringify([...recent(now), now].slice(-maxMessages)));
+      } catch (error) {
+        console.error('Error saving rate limit:', error);
+      }
+    },
+  };
+};
@@ -0,0 +1,22 @@
+export interface RateLimitConfig {
+  /** מספר ההודעות המקסימלי בחלון הזמן (ברירת מחדל: 8) */
+  maxMessages: number;
+  /** אורך החלון (ברירת מחדל: דקה) */
+  windowMs: number;
+}
+
+/**
+ * אימות שהשולח אדם (reCAPTCHA, Turnstile, hCaptcha...). getToken נקרא לפני כל שליחה,
+ * והטוקן נשלח ל-webhook עם ההודעה - האימות עצמו נעשה בצד השרת.
+ */
+export interface HumanVerifier {
+  getToken(action: string, signal?: AbortSignal): Promise<string>;
+}
+
+export interface ProtectionConfig {
+  /** הגבלת קצב; false מבטל */
+  rateLimit?: Partial<RateLimitConfig> | false;
+  /** הודעה זהה להודעה הקודמת בתוך הזמן הזה לא נשלחת (ברירת מחדל: 30 שניות; 0 מבטל) */
+  duplicateWindowMs?: number;
+  verifier?: HumanVerifier;
+}
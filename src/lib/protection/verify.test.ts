@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockVerifier } from './mockVerifier';
+import { requestVerificationToken } from './verify';
+
+describe('requestVerificationToken', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns no token without a verifier', async () => {
+    await expect(requestVerificationToken(undefined, 'send', new AbortController().signal)).resolves.toBeUndefined();
+  });
+
+  it('returns the token from the verifier', async () => {
+    const token = requestVerificationToken(createMockVerifier(), 'send', new AbortController().signal);
+    await vi.runAllTimersAsync();
+
+    await expect(token).resolves.toMatch(/^mock-send-/);
+  });
+
+  it('turns a verifier failure into a verification error', async () => {
+    const token = requestVerificationToken(createMockVerifier({ fail: true }), 'send', new AbortController().signal);
+    const assertion = expect(token).rejects.toMatchObject({ kind: 'verification', isTransient: false });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+  });
+
+  it('passes an abort through as it is', async () => {
+    const controller = new AbortController();
+    const token = requestVerificationToken(createMockVerifier(), 'send', controller.signal);
+    controller.abort();
+
+    await expect(token).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,18 @@
+import { ChatTransportError } from '../transport';
+import type { HumanVerifier } from './types';
+
+/** טוקן אימות לבקשה; כישלון של המאמת הופך לשגיאת verification שלא מנסים שוב */
+export const requestVerificationToken = async (
+  verifier: HumanVerifier | undefined,
+  action: string,
+  signal: AbortSignal
+) => {
+  if (!verifier) return undefined;
+  try {
+    return await verifier.getToken(action, signal);
+  } catch (error) {
+    if (signal.aborted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ChatTransportError('verification', message, undefined, { cause: error });
+  }
+};
@@ -0,0 +1,70 @@
+import type { ProductCard, QuickReply, RichAttachment } from '../types/chat';
+
+/**
+ * פירוק תוכן עשיר מתשובת ה-webhook. ה-workflow ב-n8n מחזיר מערך attachments לצד הטקסט
+ * (בתשובת JSON רגילה - בשורש; בסטרימינג - ב-metadata של ה-chunk מסוג end):
+ *
+ * {
+ *   "output": "במה אפשר לעזור?",
+ *   "attachments": [
+ *     { "type": "quick_replies", "replies": [{ "label": "הצעת מחיר", "value": "אשמח להצעת מחיר" }, "ציוד הרמה"] },
+ *     { "type": "card", "title": "מסוע חלזוני 6\"", "subtitle": "עד 20 טון/שעה", "imageUrl": "https://...",
+ *       "price": "₪12,500", "url": "https://...", "buttonLabel": "לפרטים" },
+ *     { "type": "carousel", "cards": [{ "title": "..." }, { "title": "..." }] }
+ *   ]
+ * }
+ *
+ * רשומות לא תקינות מסוננות בשקט - הטקסט של ההודעה עדיין מוצג.
+ */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value : undefined);
+
+const parseQuickReply = (value: unknown): QuickReply | null => {
+  if (typeof value === 'string' && value.trim()) return { label: value };
+  if (!isRecord(value)) return null;
+  const label = optionalString(value.label) ?? optionalString(value.title);
+  return label ? { label, value: optionalString(value.value) } : null;
+};
+
+const parseCard = (value: unknown): ProductCard | null => {
+  if (!isRecord(value)) return null;
+  const title = optionalString(value.title);
+  if (!title) return null;
+  return {
+    title,
+    subtitle: optionalString(value.subtitle),
+    imageUrl: optionalString(value.imageUrl) ?? optionalString(value.image),
+    price: typeof value.price === 'number' ? String(value.price) : optionalString(value.price),
+    url: optionalString(value.url),
+    buttonLabel: optionalString(value.buttonLabel),
+  };
+};
+
+const notNull = <T>(value: T | null): value is T => value !== null;
+
+const parseAttachment = (value: unknown): RichAttachment | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'quick_replies':
+    case 'quickReplies': {
+      const replies = Array.isArray(value.replies) ? value.replies.map(parseQuickReply).filter(notNull) : [];
+      return replies.length > 0 ? { type: 'quickReplies', replies } : null;
+    }
+    case 'card': {
+      const card = parseCard(isRecord(value.card) ? value.card : value);
+      return card ? { type: 'card', card } : null;
+    }
+    case 'carousel': {
+      const cards = Array.isArray(value.cards) ? value.cards.map(parseCard).filter(notNull) : [];
+      return cards.length > 0 ? { type: 'carousel', cards } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const parseRichAttachments = (value: unknown): RichAttachment[] =>
+  Array.isArray(value) ? value.map(parseAttachment).filter(notNull) : [];
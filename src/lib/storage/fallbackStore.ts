@@ -0,0 +1,24 @@
+import type { MessageStore } from './types';
+
+/**
+ * store שבודק בפעם הראשונה שהאחסון הראשי נפתח. אם הפתיחה נכשלה (גלישה פרטית, אחסון חסום) -
+ * כל הקריאות עוברות ל-fallback, במקום שכל שמירה תיכשל בשקט.
+ */
+export const withFallbackStore = (primary: MessageStore, fallback: () => MessageStore): MessageStore => {
+  const active = primary.getConversations().then(
+    () => primary,
+    (error) => {
+      console.warn('Message store unavailable, falling back:', error);
+      return fallback();
+    }
+  );
+
+  return {
+    getMessages: async (sessionId) => (await active).getMessages(sessionId),
+    putMessage: async (sessionId, message, order) => (await active).putMessage(sessionId, message, order),
+    deleteMessage: async (sessionId, messageId) => (await active).deleteMessage(sessionId, messageId),
+    getConversations: async () => (await active).getConversations(),
+    putConversation: async (conversation) => (await active).putConversation(conversation),
+    deleteConversation: async (id) => (await active).deleteConversation(id),
+  };
+};
@@ -0,0 +1,19 @@
+import { createIndexedDbStore } from './indexedDbStore';
+import { createLocalStorageStore } from './localStorageStore';
+import { withFallbackStore } from './fallbackStore';
+import type { MessageStore } from './types';
+
+export * from './types';
+export { createIndexedDbStore } from './indexedDbStore';
+export { createLocalStorageStore } from './localStorageStore';
+export { createMemoryStore } from './memoryStore';
+export { withFallbackStore } from './fallbackStore';
+export { migrateLegacyStorage } from './migrate';
+export { applyRetention } from './retention';
+
+export const DEFAULT_RETENTION = { maxConversations: 50, maxAgeDays: 90 };
+
+export const createDefaultStore = (): MessageStore =>
+  typeof indexedDB !== 'undefined'
+    ? withFallbackStore(createIndexedDbStore(), createLocalStorageStore)
+    : createLocalStorageStore();
@@ -0,0 +1,96 @@
+import type { Conversation, Message } from '../../types/chat';
+import type { MessageStore } from './types';
+
+const DB_NAME = 'chat-widget';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const MESSAGES = 'messages';
+
+interface StoredMessage {
+  sessionId: string;
+  order: number;
+  message: Message;
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+      db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(MESSAGES)) {
+      const messages = db.createObjectStore(MESSAGES, { keyPath: ['sessionId', 'message.id'] });
+      messages.createIndex('sessionId', 'sessionId');
+    }
+  };
+  return promisify(request);
+};
+
+// מימוש ברירת המחדל - כל הודעה היא רשומה נפרדת, כך שכתיבה לא חוסמת ולא מוגבלת ל-5MB
+export const createIndexedDbStore = (): MessageStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => (dbPromise ??= openDatabase());
+
+  const run = async (storeNames: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => void) => {
+    const db = await getDb();
+    const transaction = db.transaction(storeNames, mode);
+    work(transaction);
+    await completion(transaction);
+  };
+
+  return {
+    async getMessages(sessionId) {
+      const db = await getDb();
+      const index = db.transaction(MESSAGES, 'readonly').objectStore(MESSAGES).index('sessionId');
+      const stored = await promisify<StoredMessage[]>(index.getAll(sessionId));
+      return stored.sort((a, b) => a.order - b.order).map(({ message }) => message);
+    },
+    putMessage(sessionId, message, order) {
+      return run([MESSAGES], 'readwrite', (tx) => {
+        tx.objectStore(MESSAGES).put({ sessionId, order, message } satisfies StoredMessage);
+      });
+    },
+    deleteMessage(sessionId, messageId) {
+      return run([MESSAGES], 'readwrite', (tx) => {
+        tx.objectStore(MESSAGES).delete([sessionId, messageId]);
+      });
+    },
+    async getConversations() {
+      const db = await getDb();
+      return promisify<Conversation[]>(db.transaction(CONVERSATIONS, 'readonly').objectStore(CONVERSATIONS).getAll());
+    },
+    putConversation(conversation) {
+      return run([CONVERSATIONS], 'readwrite', (tx) => {
+        tx.objectStore(CONVERSATIONS).put(conversation);
+      });
+    },
+    deleteConversation(id) {
+      return run([CONVERSATIONS, MESSAGES], 'readwrite', (tx) => {
+        tx.objectStore(CONVERSATIONS).delete(id);
+        const messages = tx.objectStore(MESSAGES);
+        const request = messages.index('sessionId').openKeyCursor(IDBKeyRange.only(id));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            messages.delete(cursor.primaryKey);
+            cursor.continue();
+          }
+        };
+      });
+    },
+  };
+};
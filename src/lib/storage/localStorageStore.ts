@@ -0,0 +1,82 @@
+import type { Conversation, Message } from '../../types/chat';
+import type { MessageStore } from './types';
+
+const KEYS = {
+  CONVERSATIONS: 'chat_store_conversations',
+  MESSAGES_PREFIX: 'chat_store_messages_',
+};
+
+interface StoredMessage {
+  message: Message;
+  order: number;
+}
+
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return fallback;
+  }
+};
+
+const write = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+// Blob לא שורד JSON (נהיה {}) - תוכן הקבצים לא נשמר, נשארים השם, הסוג והכתובת
+const withoutBlobs = (message: Message): Message =>
+  message.attachments
+    ? { ...message, attachments: message.attachments.map((attachment) => ({ ...attachment, blob: undefined })) }
+    : message;
+
+const reviveMessage = (message: Message): Message =>
+  withoutBlobs({ ...message, timestamp: new Date(message.timestamp) });
+
+const reviveConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  createdAt: new Date(conversation.createdAt),
+  updatedAt: new Date(conversation.updatedAt),
+});
+
+// מימוש מעל localStorage - מפתח נפרד לכל שיחה; מתאים לדפדפנים בלי IndexedDB
+export const createLocalStorageStore = (): MessageStore => {
+  const messagesKey = (sessionId: string) => `${KEYS.MESSAGES_PREFIX}${sessionId}`;
+  const readMessages = (sessionId: string) => read<StoredMessage[]>(messagesKey(sessionId), []);
+  const readConversations = () => read<Conversation[]>(KEYS.CONVERSATIONS, []).map(reviveConversation);
+
+  return {
+    async getMessages(sessionId) {
+      return readMessages(sessionId)
+        .sort((a, b) => a.order - b.order)
+        .map(({ message }) => reviveMessage(message));
+    },
+    async putMessage(sessionId, message, order) {
+      const stored = readMessages(sessionId).filter((entry) => entry.message.id !== message.id);
+      write(messagesKey(sessionId), [...stored, { message: withoutBlobs(message), order }]);
+    },
+    async deleteMessage(sessionId, messageId) {
+      write(
+        messagesKey(sessionId),
+        readMessages(sessionId).filter((entry) => entry.message.id !== messageId)
+      );
+    },
+    async getConversations() {
+      return readConversations();
+    },
+    async putConversation(conversation) {
+      write(KEYS.CONVERSATIONS, [
+        ...readConversations().filter((existing) => existing.id !== conversation.id),
+        conversation,
+      ]);
+    },
+    async deleteConversation(id) {
+      write(
+        KEYS.CONVERSATIONS,
+        readConversations().filter((conversation) => conversation.id !== id)
+      );
+      localStorage.removeItem(messagesKey(id));
+    },
+  };
+};
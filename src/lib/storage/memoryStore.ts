@@ -0,0 +1,41 @@
+import type { Conversation, Message } from '../../types/chat';
+import type { MessageStore } from './types';
+
+// מימוש בזיכרון בלבד - לבדיקות ולסביבות בלי אחסון
+export const createMemoryStore = (): MessageStore => {
+  const conversations = new Map<string, Conversation>();
+  const messages = new Map<string, Map<string, { message: Message; order: number }>>();
+
+  const sessionMessages = (sessionId: string) => {
+    let session = messages.get(sessionId);
+    if (!session) {
+      session = new Map();
+      messages.set(sessionId, session);
+    }
+    return session;
+  };
+
+  return {
+    async getMessages(sessionId) {
+      return [...sessionMessages(sessionId).values()]
+        .sort((a, b) => a.order - b.order)
+        .map(({ message }) => ({ ...message }));
+    },
+    async putMessage(sessionId, message, order) {
+      sessionMessages(sessionId).set(message.id, { message: { ...message }, order });
+    },
+    async deleteMessage(sessionId, messageId) {
+      sessionMessages(sessionId).delete(messageId);
+    },
+    async getConversations() {
+      return [...conversations.values()].map((conversation) => ({ ...conversation }));
+    },
+    async putConversation(conversation) {
+      conversations.set(conversation.id, { ...conversation });
+    },
+    async deleteConversation(id) {
+      conversations.delete(id);
+      messages.delete(id);
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import type { Conversation, Message } from '../../types/chat';
+import type { MessageStore } from './types';
+
+const LEGACY_KEYS = {
+  SESSION_ID: 'chat_session_id',
+  MESSAGES: 'chat_messages',
+  CONVERSATIONS: 'chat_conversations',
+  MESSAGES_PREFIX: 'chat_messages_',
+  MIGRATED: 'chat_storage_migrated',
+};
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+const reviveMessages = (messages: Message[]) =>
+  messages.map((msg) => ({
+    ...msg,
+    timestamp: new Date(msg.timestamp),
+    // הודעה שנשמרה באמצע סטרימינג מסומנת כלא שלמה
+    ...(msg.isStreaming ? { isStreaming: false, isIncomplete: true } : {}),
+  }));
+
+const conversationFor = (id: string, messages: Message[]): Conversation => ({
+  id,
+  title: messages.find((msg) => msg.isUser)?.text.trim().slice(0, 60) ?? '',
+  createdAt: messages[0]?.timestamp ?? new Date(),
+  updatedAt: messages[messages.length - 1]?.timestamp ?? new Date(),
+});
+
+/**
+ * העברה חד-פעמית של נתונים מה-localStorage הישן (chat_messages / chat_messages_<id>) ל-store.
+ * המפתחות הישנים נמחקים רק אחרי שהכתיבה הצליחה.
+ */
+export const migrateLegacyStorage = async (store: MessageStore) => {
+  if (localStorage.getItem(LEGACY_KEYS.MIGRATED)) return;
+
+  const sessions = new Map<string, { conversation?: Conversation; messages: Message[] }>();
+
+  const conversations = readJson<Conversation[]>(LEGACY_KEYS.CONVERSATIONS) ?? [];
+  for (const conversation of conversations) {
+    const messages = readJson<Message[]>(`${LEGACY_KEYS.MESSAGES_PREFIX}${conversation.id}`) ?? [];
+    sessions.set(conversation.id, {
+      conversation: {
+        ...conversation,
+        createdAt: new Date(conversation.createdAt),
+        updatedAt: new Date(conversation.updatedAt),
+      },
+      messages: reviveMessages(messages),
+    });
+  }
+
+  const legacyMessages = readJson<Message[]>(LEGACY_KEYS.MESSAGES);
+  const sessionId = localStorage.getItem(LEGACY_KEYS.SESSION_ID);
+  if (legacyMessages && sessionId && !sessions.has(sessionId)) {
+    sessions.set(sessionId, { messages: reviveMessages(legacyMessages) });
+  }
+
+  for (const [id, { conversation, messages }] of sessions) {
+    if (messages.length === 0) continue;
+    await store.putConversation(conversation ?? conversationFor(id, messages));
+    for (const [order, message] of messages.entries()) {
+      await store.putMessage(id, message, order);
+    }
+  }
+
+  for (const id of sessions.keys()) {
+    localStorage.removeItem(`${LEGACY_KEYS.MESSAGES_PREFIX}${id}`);
+  }
+  localStorage.removeItem(LEGACY_KEYS.CONVERSATIONS);
+  localStorage.removeItem(LEGACY_KEYS.MESSAGES);
+  localStorage.setItem(LEGACY_KEYS.MIGRATED, '1');
+};
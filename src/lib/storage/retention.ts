@@ -0,0 +1,32 @@
+import type { Conversation } from '../../types/chat';
+import type { MessageStore, RetentionPolicy } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * מוחק שיחות ישנות לפי מדיניות השמירה ומחזיר את השיחות שנשארו.
+ * השיחה הפעילה לעולם לא נמחקת.
+ */
+export const applyRetention = async (
+  store: MessageStore,
+  policy: RetentionPolicy,
+  activeId: string
+): Promise<Conversation[]> => {
+  const conversations = (await store.getConversations()).sort(
+    (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+  );
+  const minTime = policy.maxAgeDays ? Date.now() - policy.maxAgeDays * DAY_MS : -Infinity;
+
+  const kept: Conversation[] = [];
+  for (const conversation of conversations) {
+    const isActive = conversation.id === activeId;
+    const tooOld = conversation.updatedAt.getTime() < minTime;
+    const overLimit = policy.maxConversations !== undefined && kept.length >= policy.maxConversations;
+    if (!isActive && (tooOld || overLimit)) {
+      await store.deleteConversation(conversation.id);
+    } else {
+      kept.push(conversation);
+    }
+  }
+  return kept;
+};
@@ -0,0 +1,21 @@
+import type { Conversation, Message } from '../../types/chat';
+
+/**
+ * שכבת אחסון להודעות ולשיחות. הודעות נשמרות אחת-אחת לפי sessionId,
+ * כך שעדכון הודעה בודדת לא דורש לכתוב מחדש את כל השיחה.
+ */
+export interface MessageStore {
+  getMessages(sessionId: string): Promise<Message[]>;
+  /** שמירה/עדכון של הודעה; order קובע את המיקום בשיחה */
+  putMessage(sessionId: string, message: Message, order: number): Promise<void>;
+  deleteMessage(sessionId: string, messageId: string): Promise<void>;
+  getConversations(): Promise<Conversation[]>;
+  putConversation(conversation: Conversation): Promise<void>;
+  /** מוחק את השיחה וכל ההודעות שלה */
+  deleteConversation(id: string): Promise<void>;
+}
+
+export interface RetentionPolicy {
+  maxConversations?: number;
+  maxAgeDays?: number;
+}
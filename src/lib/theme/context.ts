@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import { DEFAULT_THEME } from './defaults';
+import type { ChatTheme } from './types';
+
+export const ThemeContext = createContext<ChatTheme>(DEFAULT_THEME);
@@ -0,0 +1,13 @@
+import type { CSSProperties } from 'react';
+import type { ThemeColors } from './types';
+
+// המשתנים ממופים למחלקות Tailwind (bg-primary, text-on-accent וכו') ב-styles/chat-theme.css
+export const themeVariables = (colors: ThemeColors) =>
+  ({
+    '--chat-primary': colors.primary,
+    '--chat-primary-hover': colors.primaryHover,
+    '--chat-on-primary': colors.onPrimary,
+    '--chat-accent': colors.accent,
+    '--chat-on-accent': colors.onAccent,
+    '--chat-surface': colors.surface,
+  }) as CSSProperties;
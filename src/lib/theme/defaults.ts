@@ -0,0 +1,39 @@
+import type { ChatTheme, ChatThemeConfig } from './types';
+
+export const DEFAULT_THEME: ChatTheme = {
+  colors: {
+    primary: '#1e293b',
+    primaryHover: '#334155',
+    onPrimary: '#ffffff',
+    accent: '#d1fae5',
+    onAccent: '#047857',
+    surface: '#ffffff',
+  },
+  darkColors: {
+    primary: '#475569',
+    primaryHover: '#64748b',
+    onPrimary: '#ffffff',
+    accent: '#064e3b',
+    onAccent: '#6ee7b7',
+    surface: '#0f172a',
+  },
+  colorScheme: 'light',
+  botName: 'עוזר AI',
+  avatarText: 'AI',
+  position: 'right',
+  greeting: ['שלום! אני כאן לעזור לך. איך אני יכול לסייע?'],
+  showStatus: true,
+};
+
+// שדות undefined (למשל data- attribute שלא הוגדר) לא דורסים את ברירת המחדל
+const defined = <T extends object>(value?: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value ?? {}).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+
+/** base - ברירות המחדל, למשל DEFAULT_THEME עם שם הבוט והודעת הפתיחה בשפת הממשק */
+export const resolveTheme = (config: ChatThemeConfig = {}, base: ChatTheme = DEFAULT_THEME): ChatTheme => ({
+  ...base,
+  ...defined(config),
+  colors: { ...base.colors, ...defined(config.colors) },
+  darkColors: { ...base.darkColors, ...defined(config.darkColors) },
+  greeting: config.greeting?.length ? config.greeting : base.greeting,
+});
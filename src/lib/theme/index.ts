@@ -0,0 +1,4 @@
+export type { ChatTheme, ChatThemeConfig, ColorScheme, LauncherPosition, ThemeColors } from './types';
+export { DEFAULT_THEME, resolveTheme } from './defaults';
+export { themeVariables } from './cssVariables';
+export { ThemeContext } from './context';
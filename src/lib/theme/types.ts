@@ -0,0 +1,41 @@
+export type ColorScheme = 'light' | 'dark' | 'auto';
+
+export type LauncherPosition = 'left' | 'right';
+
+export interface ThemeColors {
+  /** כפתורים, בועות המשתמש והאייקון בכותרת */
+  primary: string;
+  primaryHover: string;
+  /** טקסט ואייקונים על רקע primary */
+  onPrimary: string;
+  /** האווטאר של הבוט */
+  accent: string;
+  onAccent: string;
+  /** רקע החלון, הבועות והכרטיסים */
+  surface: string;
+}
+
+export interface ChatTheme {
+  colors: ThemeColors;
+  /** הצבעים במצב כהה */
+  darkColors: ThemeColors;
+  colorScheme: ColorScheme;
+  botName: string;
+  /** תמונת האווטאר של הבוט; בלעדיה מוצג avatarText */
+  avatarUrl?: string;
+  avatarText: string;
+  /** תמונה לכפתור הפתיחה במקום אייקון הבועה */
+  launcherIconUrl?: string;
+  /** צד המסך של כפתור הפתיחה והחלון */
+  position: LauncherPosition;
+  /** הודעות הפתיחה של שיחה חדשה */
+  greeting: string[];
+  /** חיווי "מקוון" בכותרת */
+  showStatus: boolean;
+}
+
+/** הגדרות מיתוג חלקיות - כל שדה שחסר נלקח מ-DEFAULT_THEME */
+export type ChatThemeConfig = Partial<Omit<ChatTheme, 'colors' | 'darkColors'>> & {
+  colors?: Partial<ThemeColors>;
+  darkColors?: Partial<ThemeColors>;
+};
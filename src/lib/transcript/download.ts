@@ -0,0 +1,25 @@
+import type { RenderedTranscript } from './types';
+
+// שם קובץ בטוח לכל מערכת הפעלה; עברית נשארת
+const toFileName = (title: string) => title.replace(/[\\/:*?"<>|\n\r]+/g, ' ').trim().slice(0, 60) || 'chat';
+
+/** הורדת התמליל כקובץ; BOM בקבצי טקסט כדי ש-Excel ו-Notepad יזהו UTF-8 */
+export const downloadTranscript = ({ content, mimeType, extension }: RenderedTranscript, title: string) => {
+  const bom = extension === 'json' ? '' : '\uFEFF';
+  const url = URL.createObjectURL(new Blob([bom, content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${toFileName(title)}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** פתיחת תמליל ה-HTML בחלון חדש עם חלון ההדפסה */
+export const printTranscript = (html: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+  const printWindow = window.open(url, '_blank');
+  printWindow?.addEventListener('load', () => printWindow.print(), { once: true });
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
@@ -0,0 +1,114 @@
+import type { Message } from '../../types/chat';
+import { detectDirection } from '../i18n';
+import { escapeHtml, parseMarkdown, toHtml, toPlainText } from '../markdown';
+import { transcriptToJson } from './json';
+import type { RenderedTranscript, Transcript, TranscriptFormat, TranscriptOptions } from './types';
+
+// סימני כיוון (RLM/LRM) בתחילת שורה - כדי שעורך טקסט יציג פסקה עברית מימין לשמאל
+const DIRECTION_MARKS = { rtl: '\u200F', ltr: '\u200E' };
+
+const speaker = (message: Message, { botName, userName }: TranscriptOptions) => {
+  if (message.isUser) return userName;
+  return message.sender === 'agent' ? message.agent?.name ?? botName : botName;
+};
+
+const attachmentNames = (message: Message) => message.attachments?.map((file) => file.name) ?? [];
+
+const withDirection = (text: string, fallback: TranscriptOptions['i18n']['dir']) => {
+  const mark = DIRECTION_MARKS[detectDirection(text) ?? fallback];
+  return text
+    .split('\n')
+    .map((line) => (line ? mark + line : line))
+    .join('\n');
+};
+
+export const transcriptToText = ({ conversation, messages }: Transcript, options: TranscriptOptions) => {
+  const { i18n } = options;
+  const header = withDirection(`${options.title}\n${i18n.formatDateTime(conversation.createdAt)}`, i18n.dir);
+  const entries = messages.map((message) => {
+    const text = message.isUser ? message.text : toPlainText(parseMarkdown(message.text));
+    const body = [text, ...attachmentNames(message).map((name) => `📎 ${name}`)].filter(Boolean).join('\n');
+    const heading = withDirection(`[${i18n.formatDateTime(message.timestamp)}] ${speaker(message, options)}:`, i18n.dir);
+    return `${heading}\n${withDirection(body, i18n.dir)}`;
+  });
+  return [header, ...entries].join('\n\n') + '\n';
+};
+
+export const transcriptToMarkdown = ({ conversation, messages }: Transcript, options: TranscriptOptions) => {
+  const { i18n } = options;
+  const entries = messages.map((message) => {
+    const lines = [`**${speaker(message, options)}** · ${i18n.formatDateTime(message.timestamp)}`, ''];
+    if (message.text) lines.push(message.isUser ? message.text.replace(/\n/g, '  \n') : message.text);
+    for (const file of message.attachments ?? []) {
+      lines.push(file.url ? `📎 [${file.name}](${file.url})` : `📎 ${file.name}`);
+    }
+    return lines.join('\n');
+  });
+  const header = `# ${options.title}\n\n_${i18n.formatDateTime(conversation.createdAt)}_`;
+  return [header, ...entries].join('\n\n---\n\n') + '\n';
+};
+
+const PRINT_STYLES = `
+body { font-family: system-ui, -apple-system, 'Segoe UI', Arial, sans-serif; color: #1e293b; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1 { font-size: 1.25rem; margin-bottom: 0; }
+.meta { color: #64748b; font-size: 0.875rem; }
+.message { border: 1px solid #e2e8f0; border-radius: 12px; padding: 0.5rem 0.75rem; margin: 0.75rem 0; break-inside: avoid; }
+.message.user { background: #f1f5f9; }
+.message header { display: flex; justify-content: space-between; gap: 1rem; color: #64748b; font-size: 0.75rem; }
+.message header strong { color: #334155; }
+.text { white-space: pre-wrap; }
+p { margin: 0.25rem 0; }
+code, pre { background: #f1f5f9; border-radius: 4px; font-family: ui-monospace, monospace; font-size: 0.85em; }
+pre { padding: 0.5rem; overflow-x: auto; }
+table { border-collapse: collapse; font-size: 0.875rem; }
+th, td { border: 1px solid #e2e8f0; padding: 0.25rem 0.5rem; }
+blockquote { border-inline-start: 4px solid #cbd5e1; margin: 0.25rem 0; padding-inline-start: 0.75rem; color: #475569; }
+@media print { body { margin: 0; } a { color: inherit; } }
+`;
+
+const messageHtml = (message: Message, options: TranscriptOptions) => {
+  const dir = detectDirection(message.text) ?? options.i18n.dir;
+  const body = message.isUser
+    ? `<div class="text">${escapeHtml(message.text)}</div>`
+    : toHtml(parseMarkdown(message.text));
+  const files = attachmentNames(message).map((name) => `<div>📎 ${escapeHtml(name)}</div>`).join('');
+  return `<article class="message ${message.isUser ? 'user' : 'bot'}">
+<header><strong>${escapeHtml(speaker(message, options))}</strong><time datetime="${message.timestamp.toISOString()}">${escapeHtml(options.i18n.formatDateTime(message.timestamp))}</time></header>
+<div dir="${dir}">${body}${files}</div>
+</article>`;
+};
+
+export const transcriptToHtml = ({ conversation, messages }: Transcript, options: TranscriptOptions) => {
+  const { i18n } = options;
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(i18n.locale)}" dir="${i18n.dir}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(options.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(options.title)}</h1>
+<p class="meta">${escapeHtml(i18n.formatDateTime(conversation.createdAt))}</p>
+${messages.map((message) => messageHtml(message, options)).join('\n')}
+</body>
+</html>
+`;
+};
+
+export const renderTranscript = (
+  format: TranscriptFormat,
+  transcript: Transcript,
+  options: TranscriptOptions
+): RenderedTranscript => {
+  switch (format) {
+    case 'txt':
+      return { content: transcriptToText(transcript, options), mimeType: 'text/plain', extension: 'txt' };
+    case 'md':
+      return { content: transcriptToMarkdown(transcript, options), mimeType: 'text/markdown', extension: 'md' };
+    case 'json':
+      return { content: transcriptToJson(transcript), mimeType: 'application/json', extension: 'json' };
+    case 'html':
+      return { content: transcriptToHtml(transcript, options), mimeType: 'text/html', extension: 'html' };
+  }
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export { renderTranscript, transcriptToHtml, transcriptToMarkdown, transcriptToText } from './formats';
+export { importTranscript, parseTranscript, transcriptToJson } from './json';
+export { downloadTranscript, printTranscript } from './download';
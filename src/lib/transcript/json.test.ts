@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { Conversation, Message } from '../../types/chat';
+import { createMemoryStore } from '../storage';
+import { importTranscript, parseTranscript, transcriptToJson } from './json';
+
+const conversation: Conversation = {
+  id: 'session-1',
+  title: 'מחיר למסוע',
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  updatedAt: new Date('2025-01-01T10:05:00Z'),
+  lead: { name: 'Dana', phone: '+972501234567' },
+};
+
+const messages: Message[] = [
+  {
+    id: '1',
+    text: 'שלום! במה אפשר לעזור?',
+    isUser: false,
+    timestamp: new Date('2025-01-01T10:00:00Z'),
+    richAttachments: [{ type: 'quickReplies', replies: [{ label: 'הצעת מחיר' }] }],
+  },
+  {
+    id: 'u1',
+    text: 'כמה עולה מסוע?',
+    isUser: true,
+    timestamp: new Date('2025-01-01T10:01:00Z'),
+    status: 'sent',
+    attachments: [{ id: 'f1', name: 'plan.pdf', mimeType: 'application/pdf', size: 10, blob: new Blob(['pdf']) }],
+  },
+  {
+    id: 'b1',
+    text: 'החל מ-₪12,500',
+    isUser: false,
+    timestamp: new Date('2025-01-01T10:02:00Z'),
+    isStreaming: true,
+  },
+];
+
+describe('parseTranscript', () => {
+  it('reads back an exported transcript with dates and without file contents', () => {
+    const { conversation: parsed, messages: parsedMessages } = parseTranscript(
+      transcriptToJson({ conversation, messages })
+    );
+
+    expect(parsed).toEqual(conversation);
+    expect(parsedMessages[0]).toEqual(messages[0]);
+    expect(parsedMessages[1].timestamp).toEqual(messages[1].timestamp);
+    expect(parsedMessages[1].attachments).toEqual([
+      { id: 'f1', name: 'plan.pdf', mimeType: 'application/pdf', size: 10, url: undefined },
+    ]);
+    // תשובה שהייתה באמצע סטרימינג מיובאת כלא שלמה
+    expect(parsedMessages[2]).toMatchObject({ isIncomplete: true });
+    expect(parsedMessages[2].isStreaming).toBeUndefined();
+  });
+
+  it('drops unknown fields and values of the wrong type', () => {
+    const json = JSON.stringify({
+      type: 'chat-transcript',
+      version: 1,
+      conversation: { ...conversation, lead: { name: 'Dana', admin: 'yes' }, extra: 1 },
+      messages: [
+        {
+          id: 'u1',
+          text: 'hi',
+          isUser: true,
+          timestamp: '2025-01-01T10:01:00Z',
+          status: 'sending',
+          sender: 'agent',
+          feedback: { rating: 'great' },
+          isTyping: true,
+          richAttachments: [{ type: 'script', src: 'x' }],
+        },
+      ],
+    });
+
+    const { conversation: parsed, messages: parsedMessages } = parseTranscript(json);
+
+    expect(parsed.lead).toEqual({ name: 'Dana' });
+    expect(parsed).not.toHaveProperty('extra');
+    expect(parsedMessages[0]).toEqual({
+      id: 'u1',
+      text: 'hi',
+      isUser: true,
+      timestamp: new Date('2025-01-01T10:01:00Z'),
+      status: 'failed',
+    });
+  });
+
+  it.each([
+    ['not JSON', 'not json'],
+    ['another file type', JSON.stringify({ type: 'something-else', version: 1, messages: [] })],
+    ['a newer version', JSON.stringify({ type: 'chat-transcript', version: 99, conversation, messages: [] })],
+    ['a missing conversation id', JSON.stringify({ type: 'chat-transcript', version: 1, conversation: {}, messages: [] })],
+    [
+      'an invalid date',
+      JSON.stringify({
+        type: 'chat-transcript',
+        version: 1,
+        conversation,
+        messages: [{ id: '1', text: 'hi', isUser: true, timestamp: 'yesterday' }],
+      }),
+    ],
+  ])('rejects %s', (_, json) => {
+    expect(() => parseTranscript(json)).toThrow();
+  });
+});
+
+describe('importTranscript', () => {
+  it('replaces the stored conversation and keeps the message order', async () => {
+    const store = createMemoryStore();
+    await store.putConversation({ ...conversation, title: 'old' });
+    await store.putMessage(conversation.id, { id: 'old', text: 'old', isUser: true, timestamp: new Date() }, 0);
+
+    const transcript = parseTranscript(transcriptToJson({ conversation, messages }));
+    await importTranscript(store, transcript);
+
+    expect(await store.getConversations()).toEqual([conversation]);
+    expect((await store.getMessages(conversation.id)).map((msg) => msg.id)).toEqual(['1', 'u1', 'b1']);
+  });
+});
@@ -0,0 +1,169 @@
+import type {
+  AgentInfo,
+  Conversation,
+  FileAttachment,
+  LeadField,
+  LeadInfo,
+  Message,
+  MessageFeedback,
+  SendFailureReason,
+} from '../../types/chat';
+import type { MessageStore } from '../storage';
+import { parseRichAttachments } from '../richAttachments';
+import type { Transcript } from './types';
+
+const TRANSCRIPT_TYPE = 'chat-transcript';
+const TRANSCRIPT_VERSION = 1;
+
+interface TranscriptFile {
+  type: typeof TRANSCRIPT_TYPE;
+  version: number;
+  exportedAt: string;
+  conversation: Conversation;
+  messages: Message[];
+}
+
+// תוכן של קובץ שהמשתמש העלה לא נכנס ל-JSON - נשארים השם, הסוג והכתובת
+const withoutBlob = (attachment: FileAttachment): FileAttachment => ({ ...attachment, blob: undefined });
+
+// מצבי תצוגה זמניים לא נשמרים; הודעה שהייתה בדרך מסומנת כמו אחרי טעינה מחדש
+const toStoredMessage = (message: Message): Message => ({
+  ...message,
+  isTyping: undefined,
+  isStreaming: undefined,
+  ...(message.isStreaming ? { isIncomplete: true } : {}),
+  ...(message.status === 'sending' ? { status: 'failed', failureReason: 'network' } : {}),
+  attachments: message.attachments?.map(withoutBlob),
+});
+
+export const transcriptToJson = ({ conversation, messages }: Transcript) => {
+  const file: TranscriptFile = {
+    type: TRANSCRIPT_TYPE,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation,
+    messages: messages.map(toStoredMessage),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * קריאה חזרה של קובץ שיוצא ב-transcriptToJson. הקובץ מגיע מהמשתמש, ולכן כל שדה נבדק בנפרד:
+ * שדות לא מוכרים או מסוג לא נכון נזרקים, ומבנה שבור (בלי id, טקסט או זמן תקין) נדחה כולו.
+ */
+
+const FAILURE_REASONS: SendFailureReason[] = ['network', 'timeout', 'server', 'request', 'response', 'cancelled', 'verification'];
+const LEAD_FIELDS: LeadField[] = ['name', 'phone', 'company', 'email', 'topic'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[]) =>
+  options.includes(value as T) ? (value as T) : undefined;
+
+const invalid = (reason: string) => new Error(`Invalid transcript: ${reason}`);
+
+const toDate = (value: unknown) => {
+  const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+  if (Number.isNaN(date.getTime())) throw invalid('bad date');
+  return date;
+};
+
+const parseAttachment = (value: unknown): FileAttachment[] => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return [];
+  return [
+    {
+      id: value.id,
+      name: value.name,
+      mimeType: optionalString(value.mimeType) ?? '',
+      size: typeof value.size === 'number' ? value.size : undefined,
+      // קבצים שהמשתמש צירף יוצאו בלי תוכן - נשארת רק כתובת של קובץ מהבוט, שעוברת את מדיניות הקישורים בתצוגה
+      url: optionalString(value.url),
+    },
+  ];
+};
+
+const parseFeedback = (value: unknown): MessageFeedback | undefined => {
+  if (!isRecord(value)) return undefined;
+  const rating = oneOf(value.rating, ['up', 'down'] as const);
+  return rating ? { rating, comment: optionalString(value.comment) } : undefined;
+};
+
+const parseAgent = (value: unknown): AgentInfo | undefined => {
+  if (!isRecord(value) || typeof value.name !== 'string') return undefined;
+  return { id: optionalString(value.id), name: value.name, avatarUrl: optionalString(value.avatarUrl) };
+};
+
+const parseMessage = (value: unknown): Message => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.text !== 'string') {
+    throw invalid('bad message');
+  }
+  const isUser = value.isUser === true;
+  const status = oneOf(value.status, ['queued', 'sending', 'sent', 'failed'] as const);
+  const richAttachments = parseRichAttachments(value.richAttachments);
+  const attachments = Array.isArray(value.attachments) ? value.attachments.flatMap(parseAttachment) : [];
+  return {
+    id: value.id,
+    text: value.text,
+    isUser,
+    timestamp: toDate(value.timestamp),
+    isIncomplete: value.isIncomplete === true || undefined,
+    richAttachments: richAttachments.length > 0 ? richAttachments : undefined,
+    attachments: attachments.length > 0 ? attachments : undefined,
+    // הודעה שנשלחה בזמן הייצוא לא ממשיכה להישלח אחרי הייבוא
+    status: isUser ? (status === 'sending' ? 'failed' : status) : undefined,
+    failureReason: oneOf(value.failureReason, FAILURE_REASONS),
+    feedback: parseFeedback(value.feedback),
+    sender: isUser ? undefined : oneOf(value.sender, ['bot', 'agent', 'system'] as const),
+    agent: isUser ? undefined : parseAgent(value.agent),
+  };
+};
+
+const parseLead = (value: unknown): LeadInfo | undefined => {
+  if (!isRecord(value)) return undefined;
+  const lead: LeadInfo = {};
+  for (const field of LEAD_FIELDS) {
+    if (typeof value[field] === 'string') lead[field] = value[field];
+  }
+  return lead;
+};
+
+const parseConversation = (value: unknown): Conversation => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) throw invalid('missing conversation id');
+  return {
+    id: value.id,
+    title: optionalString(value.title) ?? '',
+    customTitle: optionalString(value.customTitle),
+    createdAt: toDate(value.createdAt),
+    updatedAt: toDate(value.updatedAt),
+    lead: parseLead(value.lead),
+  };
+};
+
+/** קריאת קובץ JSON שיוצא מהצ'אט; זורק Error אם המבנה לא תקין */
+export const parseTranscript = (json: string): Transcript => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw invalid('not JSON');
+  }
+  if (!isRecord(data) || data.type !== TRANSCRIPT_TYPE || !Array.isArray(data.messages)) {
+    throw invalid('not a chat transcript');
+  }
+  if (typeof data.version !== 'number' || data.version > TRANSCRIPT_VERSION) {
+    throw new Error(`Unsupported transcript version: ${String(data.version)}`);
+  }
+  return { conversation: parseConversation(data.conversation), messages: data.messages.map(parseMessage) };
+};
+
+/** שמירת תמליל ב-store; שיחה עם אותו id נדרסת */
+export const importTranscript = async (store: MessageStore, { conversation, messages }: Transcript) => {
+  await store.deleteConversation(conversation.id);
+  await store.putConversation(conversation);
+  for (const [order, message] of messages.entries()) {
+    await store.putMessage(conversation.id, message, order);
+  }
+};
@@ -0,0 +1,24 @@
+import type { Conversation, Message } from '../../types/chat';
+import type { I18n } from '../i18n';
+
+export type TranscriptFormat = 'txt' | 'md' | 'json' | 'html';
+
+/** השיחה כפי שהיא נשמרת ב-store - הקלט לכל הפורמטים */
+export interface Transcript {
+  conversation: Conversation;
+  messages: Message[];
+}
+
+export interface TranscriptOptions {
+  title: string;
+  botName: string;
+  /** הכינוי של המשתמש בתמליל */
+  userName: string;
+  i18n: I18n;
+}
+
+export interface RenderedTranscript {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
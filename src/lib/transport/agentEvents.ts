@@ -0,0 +1,161 @@
+import type { AgentInfo } from '../../types/chat';
+import type { AgentEvent, AgentSubscribeOptions } from './types';
+
+/**
+ * אירועי נציג בפורמט JSON, זהה ב-SSE, ב-WebSocket וב-polling:
+ *
+ * { "type": "queue", "position": 3 }
+ * { "type": "joined", "agent": { "name": "דנה", "avatarUrl": "https://..." } }
+ * { "type": "message", "id": "...", "text": "שלום, איך אפשר לעזור?", "agent": { "name": "דנה" } }
+ * { "type": "left" }
+ *
+ * אירועים לא מוכרים מסוננים בשקט.
+ */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const parseAgent = (value: unknown): AgentInfo | undefined => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) return undefined;
+  return {
+    id: typeof value.id === 'string' ? value.id : undefined,
+    name: value.name,
+    avatarUrl: typeof value.avatarUrl === 'string' ? value.avatarUrl : undefined,
+  };
+};
+
+export const parseAgentEvent = (value: unknown): AgentEvent | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'queue':
+      return typeof value.position === 'number' ? { type: 'queue', position: value.position } : null;
+    case 'joined': {
+      const agent = parseAgent(value.agent);
+      return agent ? { type: 'joined', agent } : null;
+    }
+    case 'message': {
+      if (typeof value.text !== 'string' || !value.text) return null;
+      const timestamp = typeof value.timestamp === 'string' ? new Date(value.timestamp) : undefined;
+      return {
+        type: 'message',
+        id: typeof value.id === 'string' ? value.id : undefined,
+        text: value.text,
+        agent: parseAgent(value.agent),
+        timestamp: timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp : undefined,
+      };
+    }
+    case 'left':
+      return { type: 'left', agent: parseAgent(value.agent) };
+    default:
+      return null;
+  }
+};
+
+/** מחזיר את ה-id של האירוע, אם יש - משמש כ-cursor ב-WebSocket */
+const parseEventData = (data: unknown, onEvent: (event: AgentEvent) => void) => {
+  if (typeof data !== 'string') return undefined;
+  try {
+    const value = JSON.parse(data);
+    const event = parseAgentEvent(value);
+    if (event) onEvent(event);
+    return isRecord(value) && typeof value.id === 'string' ? value.id : undefined;
+  } catch {
+    // הודעת keep-alive או JSON לא תקין
+    return undefined;
+  }
+};
+
+const eventsUrl = (url: string, sessionId: string, cursor: string | undefined) => {
+  const target = new URL(url, location.href);
+  target.searchParams.set('sessionId', sessionId);
+  if (cursor) target.searchParams.set('cursor', cursor);
+  return target.toString();
+};
+
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * ws:// או wss:// - WebSocket עם התחברות מחדש; כל כתובת אחרת - SSE (EventSource מתחבר מחדש לבד, עם Last-Event-ID).
+ * החיבור נפתח עם ?cursor= של האירוע האחרון שטופל, כדי שהשרת לא ישלח שוב אירועים ישנים.
+ */
+export const subscribeToEventsUrl = (
+  url: string,
+  sessionId: string,
+  onEvent: (event: AgentEvent) => void,
+  { cursor: initialCursor, onCursor }: AgentSubscribeOptions = {}
+) => {
+  let cursor = initialCursor;
+  const updateCursor = (next: string | undefined) => {
+    if (!next || next === cursor) return;
+    cursor = next;
+    onCursor?.(next);
+  };
+
+  if (!/^wss?:/i.test(url)) {
+    const source = new EventSource(eventsUrl(url, sessionId, cursor));
+    source.onmessage = (e) => {
+      parseEventData(e.data, onEvent);
+      updateCursor(e.lastEventId);
+    };
+    return () => source.close();
+  }
+
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  const connect = () => {
+    socket = new WebSocket(eventsUrl(url, sessionId, cursor));
+    socket.onmessage = (e) => updateCursor(parseEventData(e.data, onEvent));
+    socket.onclose = () => {
+      if (!closed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+  connect();
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+};
+
+export interface AgentPollResult {
+  events: unknown[];
+  /** מסמן את האירוע האחרון שהתקבל - נשלח בבקשה הבאה */
+  cursor?: string;
+}
+
+/** polling כל intervalMs; שגיאה נרשמת והבקשה הבאה יוצאת כרגיל */
+export const pollAgentEvents = (
+  poll: (cursor: string | undefined, signal: AbortSignal) => Promise<AgentPollResult>,
+  intervalMs: number,
+  onEvent: (event: AgentEvent) => void,
+  { cursor: initialCursor, onCursor }: AgentSubscribeOptions = {}
+) => {
+  const controller = new AbortController();
+  let cursor = initialCursor;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    try {
+      const result = await poll(cursor, controller.signal);
+      for (const value of result.events) {
+        const event = parseAgentEvent(value);
+        if (event) onEvent(event);
+      }
+      if (result.cursor && result.cursor !== cursor) {
+        cursor = result.cursor;
+        onCursor?.(cursor);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error polling agent events:', error);
+    }
+    if (!controller.signal.aborted) timer = setTimeout(tick, intervalMs);
+  };
+  tick();
+
+  return () => {
+    controller.abort();
+    clearTimeout(timer);
+  };
+};
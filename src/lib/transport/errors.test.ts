@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ChatTransportError, toChatTransportError } from './errors';
+
+describe('toChatTransportError', () => {
+  it('returns classified errors as they are', () => {
+    const error = new ChatTransportError('http', 'Bad gateway', 502);
+
+    expect(toChatTransportError(error)).toBe(error);
+  });
+
+  it.each([
+    [new DOMException('Aborted', 'AbortError'), 'aborted'],
+    [new DOMException('Timed out', 'TimeoutError'), 'timeout'],
+    [new TypeError('Failed to fetch'), 'network'],
+    [new SyntaxError('Unexpected token <'), 'parse'],
+    [new Error('Something else'), 'unknown'],
+    ['plain string', 'unknown'],
+  ])('classifies %s as %s', (error, kind) => {
+    const classified = toChatTransportError(error);
+
+    expect(classified.kind).toBe(kind);
+    expect(classified.cause).toBe(error);
+  });
+});
+
+describe('ChatTransportError', () => {
+  it.each([
+    ['network', undefined, true],
+    ['timeout', undefined, true],
+    ['http', 503, true],
+    ['http', 429, true],
+    ['http', 408, true],
+    ['http', 400, false],
+    ['parse', undefined, false],
+    ['aborted', undefined, false],
+    ['verification', undefined, false],
+  ] as const)('%s %s is transient: %s', (kind, status, transient) => {
+    expect(new ChatTransportError(kind, 'error', status).isTransient).toBe(transient);
+  });
+
+  it.each([
+    ['http', 404, 'request'],
+    ['http', 500, 'server'],
+    ['parse', undefined, 'response'],
+    ['stream', undefined, 'response'],
+    ['aborted', undefined, 'cancelled'],
+    ['unknown', undefined, 'server'],
+  ] as const)('%s %s fails with reason %s', (kind, status, reason) => {
+    expect(new ChatTransportError(kind, 'error', status).failureReason).toBe(reason);
+  });
+});
@@ -0,0 +1,58 @@
+import type { SendFailureReason } from '../../types/chat';
+
+export type ChatErrorKind = 'network' | 'timeout' | 'http' | 'parse' | 'stream' | 'aborted' | 'verification' | 'unknown';
+
+/** שגיאת שליחה מסווגת - לפי הסוג מחליטים אם לנסות שוב ואיזו הודעה להציג */
+export class ChatTransportError extends Error {
+  readonly kind: ChatErrorKind;
+  /** קוד ה-HTTP, כש-kind הוא http */
+  readonly status?: number;
+
+  constructor(kind: ChatErrorKind, message: string, status?: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ChatTransportError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  /** שגיאות זמניות: ניתוק, timeout, 5xx, 408 ו-429 */
+  get isTransient() {
+    if (this.kind === 'network' || this.kind === 'timeout') return true;
+    return this.kind === 'http' && !!this.status && (this.status >= 500 || this.status === 408 || this.status === 429);
+  }
+
+  get failureReason(): SendFailureReason {
+    switch (this.kind) {
+      case 'network':
+      case 'timeout':
+        return this.kind;
+      case 'http':
+        return this.status && this.status < 500 ? 'request' : 'server';
+      case 'parse':
+      case 'stream':
+        return 'response';
+      case 'aborted':
+        return 'cancelled';
+      case 'verification':
+        return 'verification';
+      default:
+        return 'server';
+    }
+  }
+}
+
+/** המרת כל שגיאה (fetch, JSON, abort) לשגיאה מסווגת */
+export const toChatTransportError = (error: unknown): ChatTransportError => {
+  if (error instanceof ChatTransportError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ChatTransportError('aborted', message, undefined, { cause: error });
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new ChatTransportError('timeout', message, undefined, { cause: error });
+  }
+  // fetch זורק TypeError כשאין רשת או כשהבקשה נחסמה
+  if (error instanceof TypeError) return new ChatTransportError('network', message, undefined, { cause: error });
+  if (error instanceof SyntaxError) return new ChatTransportError('parse', message, undefined, { cause: error });
+  return new ChatTransportError('unknown', message, undefined, { cause: error });
+};
@@ -0,0 +1,7 @@
+export * from './types';
+export { createN8nTransport } from './n8n';
+export { createMockTransport } from './mock';
+export { createTransport, registerTransport } from './registry';
+export { ChatTransportError, toChatTransportError, type ChatErrorKind } from './errors';
+export { withRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from './retry';
+export { parseAgentEvent, pollAgentEvents, subscribeToEventsUrl, type AgentPollResult } from './agentEvents';
@@ -0,0 +1,73 @@
+import type { AgentEvent, ChatTransport, TransportOptions } from './types';
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+
+// transport מקומי לפיתוח - מחזיר את ההודעה בחזרה בלי לפנות לשרת
+export const createMockTransport = (options: TransportOptions = {}): ChatTransport => {
+  const delay = typeof options.delay === 'number' ? options.delay : 400;
+  const reply = (message: string) => `קיבלתי: ${message}`;
+  // "נציג" בהודעה מדמה בקשת העברה מהבוט
+  const wantsAgent = (message: string) => /נציג|human|agent/i.test(message);
+  // "הצעת מחיר" מדמה בקשה לפרטי קשר
+  const wantsLead = (message: string) => /הצעת מחיר|quote/i.test(message);
+  const agent = { name: 'נציג לדוגמה' };
+  const listeners = new Map<string, (event: AgentEvent) => void>();
+  const emit = (sessionId: string, event: AgentEvent) => listeners.get(sessionId)?.(event);
+
+  return {
+    async send({ message, signal }) {
+      await wait(delay, signal);
+      return { text: reply(message), handoff: wantsAgent(message) ? {} : undefined, collectLead: wantsLead(message) };
+    },
+
+    async stream({ message, signal }, onDelta) {
+      const text = reply(message);
+      for (const word of text.split(/(?<=\s)/)) {
+        await wait(delay / 4, signal);
+        onDelta(word);
+      }
+      return { streamed: true, text, handoff: wantsAgent(message) ? {} : undefined, collectLead: wantsLead(message) };
+    },
+
+    async loadPreviousSession() {
+      return [];
+    },
+
+    async sendFeedback(feedback) {
+      console.info('Feedback:', feedback);
+    },
+    async sendTranscript({ email, text }) {
+      console.info(`Transcript for ${email}:\n${text}`);
+    },
+
+    // נציג מדומה: שני מקומות בתור, הצטרפות, ותשובה לכל הודעה
+    handoff: {
+      async request({ sessionId }) {
+        for (const position of [2, 1]) {
+          await wait(delay * 2);
+          emit(sessionId, { type: 'queue', position });
+        }
+        await wait(delay * 2);
+        emit(sessionId, { type: 'joined', agent });
+      },
+      async send({ sessionId, message, signal }) {
+        await wait(delay, signal);
+        wait(delay * 2).then(() => emit(sessionId, { type: 'message', text: `הנציג קיבל: ${message}`, agent }));
+      },
+      subscribe(sessionId, onEvent) {
+        listeners.set(sessionId, onEvent);
+        return () => listeners.delete(sessionId);
+      },
+      async end(sessionId) {
+        emit(sessionId, { type: 'left', agent });
+      },
+    },
+  };
+};
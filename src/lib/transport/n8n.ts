@@ -0,0 +1,232 @@
+import { ulid } from 'ulid';
+import type { Message } from '../../types/chat';
+import { readChatResponse } from '../chatStream';
+import { parseRichAttachments } from '../richAttachments';
+import { parseFileAttachments } from '../fileAttachments';
+import { ChatTransportError } from './errors';
+import { pollAgentEvents, subscribeToEventsUrl } from './agentEvents';
+import type {
+  ChatReply,
+  ChatRequest,
+  ChatTransport,
+  FeedbackRequest,
+  HandoffChannel,
+  N8nFieldMapping,
+  TranscriptRequest,
+  TransportOptions,
+} from './types';
+
+const DEFAULT_WEBHOOK_URL = 'https://n8n.srv862915.hstgr.cloud/webhook/5dbfb8fd-fad3-4634-8638-d89222f12e2b/chat';
+
+const DEFAULT_FIELD_MAPPING: N8nFieldMapping = {
+  input: 'chatInput',
+  sessionId: 'sessionId',
+  action: 'action',
+  response: ['response', 'message', 'output', 'text'],
+  attachments: 'attachments',
+  files: 'files',
+  metadata: 'metadata',
+  handoff: 'handoff',
+  collectLead: 'collectLead',
+  verificationToken: 'verificationToken',
+};
+
+const DEFAULT_AGENT_POLL_INTERVAL_MS = 3000;
+
+const parseEnvHeaders = (): Record<string, string> => {
+  const raw = import.meta.env.VITE_N8N_HEADERS;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Invalid VITE_N8N_HEADERS:', error);
+    return {};
+  }
+};
+
+// הודעה שמורה בזיכרון של n8n (פורמט LangChain)
+interface N8nHistoryEntry {
+  id?: string[];
+  kwargs?: { content?: string };
+}
+
+export const createN8nTransport = (options: TransportOptions = {}): ChatTransport => {
+  const webhookUrl = options.webhookUrl || import.meta.env.VITE_N8N_WEBHOOK_URL || DEFAULT_WEBHOOK_URL;
+  const feedbackWebhookUrl = options.feedbackWebhookUrl || import.meta.env.VITE_N8N_FEEDBACK_WEBHOOK_URL;
+  const transcriptWebhookUrl = options.transcriptWebhookUrl || import.meta.env.VITE_N8N_TRANSCRIPT_WEBHOOK_URL;
+  const handoffWebhookUrl = options.handoffWebhookUrl || import.meta.env.VITE_N8N_HANDOFF_WEBHOOK_URL;
+  const agentEventsUrl = options.agentEventsUrl || import.meta.env.VITE_N8N_AGENT_EVENTS_URL;
+  const agentPollIntervalMs = options.agentPollIntervalMs ?? DEFAULT_AGENT_POLL_INTERVAL_MS;
+  const headers = { ...parseEnvHeaders(), ...options.headers };
+  const fields = { ...DEFAULT_FIELD_MAPPING, ...options.fieldMapping };
+
+  const post = async (body: Record<string, unknown> | FormData, signal?: AbortSignal, url = webhookUrl) => {
+    const isMultipart = body instanceof FormData;
+    const response = await fetch(url, {
+      method: 'POST',
+      // ב-multipart הדפדפן קובע את ה-Content-Type (כולל boundary)
+      headers: isMultipart ? headers : { 'Content-Type': 'application/json', ...headers },
+      body: isMultipart ? body : JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new ChatTransportError('http', `HTTP error! status: ${response.status}`, response.status);
+    }
+    return response;
+  };
+
+  const messageBody = ({ message, sessionId, files, metadata, verificationToken }: ChatRequest) => {
+    const body: Record<string, unknown> = {
+      [fields.input]: message,
+      [fields.sessionId]: sessionId,
+      [fields.action]: 'sendMessage',
+    };
+    if (metadata) body[fields.metadata] = metadata;
+    if (verificationToken) body[fields.verificationToken] = verificationToken;
+    if (!files?.length) return body;
+
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(body)) {
+      formData.append(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+    for (const file of files) {
+      formData.append(fields.files, file, file.name);
+    }
+    return formData;
+  };
+
+  const extractText = (data: unknown): string => {
+    if (typeof data === 'string') return data;
+    if (!data || typeof data !== 'object') return '';
+    const record = data as Record<string, unknown>;
+    for (const field of fields.response) {
+      if (typeof record[field] === 'string' && record[field]) return record[field] as string;
+    }
+    return '';
+  };
+
+  const extractAttachments = (data: unknown) =>
+    data && typeof data === 'object' ? parseRichAttachments((data as Record<string, unknown>)[fields.attachments]) : [];
+
+  const extractFiles = (data: unknown) =>
+    data && typeof data === 'object' ? parseFileAttachments((data as Record<string, unknown>)[fields.files]) : [];
+
+  const extractHandoff = (data: unknown): ChatReply['handoff'] => {
+    const value = data && typeof data === 'object' ? (data as Record<string, unknown>)[fields.handoff] : undefined;
+    if (value === true) return {};
+    if (value && typeof value === 'object') {
+      const reason = (value as Record<string, unknown>).reason;
+      return { reason: typeof reason === 'string' ? reason : undefined };
+    }
+    return undefined;
+  };
+
+  const extractCollectLead = (data: unknown) =>
+    !!data && typeof data === 'object' && (data as Record<string, unknown>)[fields.collectLead] === true;
+
+  const sendFeedback = async ({ sessionId, metadata, ...feedback }: FeedbackRequest) => {
+    const body = { [fields.action]: 'feedback', [fields.sessionId]: sessionId, ...feedback, [fields.metadata]: metadata };
+    await post(body, undefined, feedbackWebhookUrl);
+  };
+
+  const sendTranscript = async ({ sessionId, metadata, ...transcript }: TranscriptRequest) => {
+    const body = { [fields.action]: 'sendTranscript', [fields.sessionId]: sessionId, ...transcript, [fields.metadata]: metadata };
+    await post(body, undefined, transcriptWebhookUrl);
+  };
+
+  // כל פעולות הנציג נשלחות ל-webhook נפרד עם action: requestHandoff / agentMessage / pollAgentEvents / endHandoff
+  const handoff: HandoffChannel = {
+    async request({ sessionId, metadata, ...request }) {
+      const body = { [fields.action]: 'requestHandoff', [fields.sessionId]: sessionId, ...request, [fields.metadata]: metadata };
+      await post(body, undefined, handoffWebhookUrl);
+    },
+    async send(request) {
+      const body = messageBody(request);
+      if (body instanceof FormData) body.set(fields.action, 'agentMessage');
+      else body[fields.action] = 'agentMessage';
+      await post(body, request.signal, handoffWebhookUrl);
+    },
+    subscribe(sessionId, onEvent, options) {
+      if (agentEventsUrl) return subscribeToEventsUrl(agentEventsUrl, sessionId, onEvent, options);
+      return pollAgentEvents(
+        async (cursor, signal) => {
+          const response = await post(
+            { [fields.action]: 'pollAgentEvents', [fields.sessionId]: sessionId, cursor },
+            signal,
+            handoffWebhookUrl
+          );
+          const data = await response.json();
+          return {
+            events: Array.isArray(data?.events) ? data.events : [],
+            cursor: typeof data?.cursor === 'string' ? data.cursor : undefined,
+          };
+        },
+        agentPollIntervalMs,
+        onEvent,
+        options
+      );
+    },
+    async end(sessionId) {
+      await post({ [fields.action]: 'endHandoff', [fields.sessionId]: sessionId }, undefined, handoffWebhookUrl);
+    },
+  };
+
+  return {
+    handoff: handoffWebhookUrl ? handoff : undefined,
+    sendFeedback: feedbackWebhookUrl ? sendFeedback : undefined,
+    sendTranscript: transcriptWebhookUrl ? sendTranscript : undefined,
+
+    async send(request) {
+      const response = await post(messageBody(request), request.signal);
+      const data = await response.json();
+      return {
+        text: extractText(data),
+        data,
+        richAttachments: extractAttachments(data),
+        attachments: extractFiles(data),
+        handoff: extractHandoff(data),
+        collectLead: extractCollectLead(data),
+      };
+    },
+
+    async stream(request, onDelta) {
+      const response = await post(messageBody(request), request.signal);
+      const result = await readChatResponse(response, onDelta);
+      if (result.streamed) {
+        return {
+          streamed: true,
+          text: result.text,
+          richAttachments: extractAttachments(result.metadata),
+          attachments: extractFiles(result.metadata),
+          handoff: extractHandoff(result.metadata),
+          collectLead: extractCollectLead(result.metadata),
+        };
+      }
+      return {
+        streamed: false,
+        text: extractText(result.data),
+        data: result.data,
+        richAttachments: extractAttachments(result.data),
+        attachments: extractFiles(result.data),
+        handoff: extractHandoff(result.data),
+        collectLead: extractCollectLead(result.data),
+      };
+    },
+
+    async loadPreviousSession(sessionId, signal) {
+      const response = await post({ [fields.action]: 'loadPreviousSession', [fields.sessionId]: sessionId }, signal);
+      const data = await response.json();
+      const entries: N8nHistoryEntry[] = Array.isArray(data?.data) ? data.data : [];
+      return entries
+        .filter((entry) => typeof entry.kwargs?.content === 'string')
+        .map(
+          (entry): Message => ({
+            id: ulid(),
+            text: entry.kwargs!.content!,
+            isUser: !!entry.id?.includes('HumanMessage'),
+            timestamp: new Date(),
+          })
+        );
+    },
+  };
+};
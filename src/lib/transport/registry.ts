@@ -0,0 +1,24 @@
+import { createMockTransport } from './mock';
+import { createN8nTransport } from './n8n';
+import type { ChatTransport, TransportFactory, TransportOptions } from './types';
+
+const factories = new Map<string, TransportFactory>([
+  ['n8n', createN8nTransport],
+  ['mock', createMockTransport],
+]);
+
+/** רישום adapter נוסף לפי שם, בלי לגעת ב-Chat */
+export const registerTransport = (name: string, factory: TransportFactory) => {
+  factories.set(name, factory);
+};
+
+export const createTransport = (
+  name: string = import.meta.env.VITE_CHAT_TRANSPORT || 'n8n',
+  options: TransportOptions = {}
+): ChatTransport => {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown chat transport: ${name}`);
+  }
+  return factory(options);
+};
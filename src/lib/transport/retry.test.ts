@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatTransportError } from './errors';
+import { withRetry } from './retry';
+
+const policy = { retries: 2, baseDelayMs: 100, maxDelayMs: 1000, timeoutMs: 5000 };
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient errors with a backoff and returns the first success', async () => {
+    const attempt = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(new ChatTransportError('http', 'Unavailable', 503))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(attempt, { ...policy, signal: new AbortController().signal });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const attempt = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const result = withRetry(attempt, { ...policy, signal: new AbortController().signal });
+    const assertion = expect(result).rejects.toMatchObject({ kind: 'network' });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(attempt).toHaveBeenCalledTimes(policy.retries + 1);
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const attempt = vi.fn().mockRejectedValue(new ChatTransportError('http', 'Bad request', 400));
+
+    await expect(withRetry(attempt, { ...policy, signal: new AbortController().signal })).rejects.toMatchObject({
+      kind: 'http',
+      status: 400,
+    });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails with a timeout without resending when the server does not answer', async () => {
+    const attempt = vi.fn(
+      (signal: AbortSignal) =>
+        new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)))
+    );
+
+    const result = withRetry(attempt, { ...policy, signal: new AbortController().signal });
+    const assertion = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.advanceTimersByTimeAsync(policy.timeoutMs);
+
+    await assertion;
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('restarts the timeout on every touch', async () => {
+    const attempt = vi.fn(async (_signal: AbortSignal, touch: () => void) => {
+      for (let chunk = 0; chunk < 3; chunk++) {
+        await vi.advanceTimersByTimeAsync(policy.timeoutMs - 1);
+        touch();
+      }
+      return 'streamed';
+    });
+
+    await expect(withRetry(attempt, { ...policy, signal: new AbortController().signal })).resolves.toBe('streamed');
+  });
+
+  it('respects shouldRetry', async () => {
+    const attempt = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(
+      withRetry(attempt, { ...policy, signal: new AbortController().signal, shouldRetry: () => false })
+    ).rejects.toMatchObject({ kind: 'network' });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting and removes its listeners when the caller aborts', async () => {
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const attempt = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const result = withRetry(attempt, { ...policy, signal: controller.signal });
+    const assertion = expect(result).rejects.toMatchObject({ kind: 'aborted' });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await assertion;
+    expect(attempt).toHaveBeenCalledTimes(1);
+    expect(removeListener).toHaveBeenCalled();
+  });
+
+  it('removes the backoff abort listener once the delay has passed', async () => {
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, 'addEventListener');
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const attempt = vi.fn().mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue('ok');
+
+    const result = withRetry(attempt, { ...policy, signal: controller.signal });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(removeListener).toHaveBeenCalledTimes(addListener.mock.calls.length);
+  });
+});
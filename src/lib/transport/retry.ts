@@ -0,0 +1,92 @@
+import { ChatTransportError, toChatTransportError } from './errors';
+
+export interface RetryPolicy {
+  /** מספר הניסיונות החוזרים אחרי הניסיון הראשון */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** זמן מקסימלי בלי תגובה מהשרת; מתאפס בכל chunk בסטרימינג */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  timeoutMs: 30000,
+};
+
+interface RetryOptions extends RetryPolicy {
+  signal: AbortSignal;
+  /** תנאי נוסף לניסיון חוזר, למשל שעוד לא הגיע חלק מהתשובה */
+  shouldRetry?: (error: ChatTransportError) => boolean;
+}
+
+const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryPolicy) =>
+  Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ChatTransportError('aborted', 'Aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new ChatTransportError('aborted', 'Aborted'));
+    };
+    // המאזין יורד גם כשההמתנה הסתיימה, כדי שלא יצטברו מאזינים על ה-signal של השיחה
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * הרצת בקשה עם timeout ו-exponential backoff. כל ניסיון מקבל signal משלו שמתבטל
+ * כשה-signal הראשי מתבטל או כשעבר timeoutMs בלי ש-touch נקרא.
+ * timeout לא נשלח שוב: הבקשה כבר הגיעה לשרת, ושליחה חוזרת הייתה מריצה את ה-workflow פעמיים.
+ */
+export const withRetry = async <T>(
+  attempt: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  { signal, shouldRetry, ...policy }: RetryOptions
+): Promise<T> => {
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs);
+    };
+    const abort = () => controller.abort();
+    signal.addEventListener('abort', abort, { once: true });
+    touch();
+
+    try {
+      return await attempt(controller.signal, touch);
+    } catch (error) {
+      const chatError = signal.aborted
+        ? new ChatTransportError('aborted', 'Aborted', undefined, { cause: error })
+        : timedOut
+          ? new ChatTransportError('timeout', `No response after ${policy.timeoutMs}ms`, undefined, { cause: error })
+          : toChatTransportError(error);
+      if (
+        attemptIndex >= policy.retries ||
+        !chatError.isTransient ||
+        chatError.kind === 'timeout' ||
+        (shouldRetry && !shouldRetry(chatError))
+      ) {
+        throw chatError;
+      }
+      await wait(backoffDelay(attemptIndex, policy), signal);
+    } finally {
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', abort);
+    }
+  }
+};
@@ -0,0 +1,139 @@
+import type { AgentInfo, FileAttachment, Message, MessageFeedback, RichAttachment } from '../../types/chat';
+
+export interface ChatRequest {
+  message: string;
+  sessionId: string;
+  /** קבצים מצורפים - נשלחים כ-multipart */
+  files?: File[];
+  /** מידע נלווה לבקשה, למשל שפת הממשק */
+  metadata?: Record<string, unknown>;
+  /** טוקן מהמאמת (captcha) - נבדק בצד השרת */
+  verificationToken?: string;
+  signal?: AbortSignal;
+}
+
+export interface FeedbackRequest extends MessageFeedback {
+  sessionId: string;
+  /** id של תשובת הבוט שדורגה */
+  messageId: string;
+  /** טקסט התשובה */
+  message: string;
+  /** הודעת המשתמש שעליה ענה הבוט */
+  userMessageId?: string;
+  question?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TranscriptRequest {
+  sessionId: string;
+  email: string;
+  /** התמליל כטקסט וכ-HTML להדפסה */
+  text: string;
+  html: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** בקשת העברה לנציג - מהמשתמש (כפתור) או מהבוט (handoff בתשובה) */
+export interface HandoffRequest {
+  sessionId: string;
+  source: 'user' | 'bot';
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** אירועים מצד הנציג, שמגיעים ב-SSE / WebSocket / polling */
+export type AgentEvent =
+  | { type: 'queue'; position: number }
+  | { type: 'joined'; agent: AgentInfo }
+  | { type: 'message'; id?: string; text: string; agent?: AgentInfo; timestamp?: Date }
+  | { type: 'left'; agent?: AgentInfo };
+
+export interface AgentSubscribeOptions {
+  /** האירוע האחרון שכבר טופל (נשמר עם מצב ההעברה) */
+  cursor?: string;
+  /** נקרא כשמתקבל cursor חדש, כדי לשמור אותו */
+  onCursor?: (cursor: string) => void;
+}
+
+export interface HandoffChannel {
+  request(request: HandoffRequest): Promise<void>;
+  /** הודעת משתמש לנציג; התשובות מגיעות כאירועים */
+  send(request: ChatRequest): Promise<void>;
+  /** האזנה לאירועי הנציג בשיחה; מחזיר פונקציה לביטול ההאזנה */
+  subscribe(sessionId: string, onEvent: (event: AgentEvent) => void, options?: AgentSubscribeOptions): () => void;
+  /** המשתמש סיים את השיחה עם הנציג */
+  end(sessionId: string): Promise<void>;
+}
+
+export interface ChatReply {
+  /** טקסט התשובה אחרי מיפוי השדות (ריק אם לא נמצא) */
+  text: string;
+  /** גוף התשובה המקורי */
+  data?: unknown;
+  /** כפתורים, כרטיסים וקרוסלות שהגיעו עם התשובה */
+  richAttachments?: RichAttachment[];
+  /** קבצים שהבוט צירף לתשובה */
+  attachments?: FileAttachment[];
+  /** הבוט ביקש להעביר את השיחה לנציג */
+  handoff?: { reason?: string };
+  /** הבוט ביקש את פרטי הקשר של המשתמש (טופס הלידים) */
+  collectLead?: boolean;
+}
+
+export interface ChatStreamResult extends ChatReply {
+  /** true אם התשובה הגיעה כסטרימינג וכל הטקסט כבר הועבר ל-onDelta */
+  streamed: boolean;
+}
+
+export interface ChatTransport {
+  /** שליחת הודעה וקבלת תשובה מלאה */
+  send(request: ChatRequest): Promise<ChatReply>;
+  /** שליחת הודעה עם קריאה הדרגתית של התשובה; נופל ל-JSON רגיל אם השרת לא מזרים */
+  stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatStreamResult>;
+  /** טעינת היסטוריית השיחה מהשרת */
+  loadPreviousSession(sessionId: string, signal?: AbortSignal): Promise<Message[]>;
+  /** שליחת דירוג לתשובה; כשלא מוגדר - כפתורי המשוב מוסתרים */
+  sendFeedback?(feedback: FeedbackRequest): Promise<void>;
+  /** שליחת תמליל השיחה למייל של המשתמש; כשלא מוגדר - האפשרות לא מוצגת */
+  sendTranscript?(request: TranscriptRequest): Promise<void>;
+  /** העברה לנציג אנושי; כשלא מוגדר - אין כפתור "נציג" והבקשה מהבוט מתעלמת */
+  handoff?: HandoffChannel;
+}
+
+export interface N8nFieldMapping {
+  input: string;
+  sessionId: string;
+  action: string;
+  /** שדות בתשובה שמהם נלקח הטקסט, לפי סדר עדיפות */
+  response: string[];
+  /** שדה התוכן העשיר בתשובה (ראו richAttachments.ts) */
+  attachments: string;
+  /** שדה הקבצים - גם בבקשה (multipart) וגם בתשובה */
+  files: string;
+  /** שדה המידע הנלווה בבקשה */
+  metadata: string;
+  /** שדה בתשובה שמסמן העברה לנציג: true או { reason } */
+  handoff: string;
+  /** שדה בתשובה שמבקש להציג את טופס פרטי הקשר */
+  collectLead: string;
+  /** שדה טוקן האימות בבקשה */
+  verificationToken: string;
+}
+
+export interface TransportOptions {
+  webhookUrl?: string;
+  /** webhook נפרד לדירוג תשובות (ב-n8n: VITE_N8N_FEEDBACK_WEBHOOK_URL) */
+  feedbackWebhookUrl?: string;
+  /** webhook לשליחת תמליל במייל (ב-n8n: VITE_N8N_TRANSCRIPT_WEBHOOK_URL) */
+  transcriptWebhookUrl?: string;
+  /** webhook להעברה לנציג ולהודעות אליו (ב-n8n: VITE_N8N_HANDOFF_WEBHOOK_URL) */
+  handoffWebhookUrl?: string;
+  /** כתובת SSE או WebSocket (ws/wss) לאירועי הנציג; בלעדיה - polling ל-handoffWebhookUrl */
+  agentEventsUrl?: string;
+  agentPollIntervalMs?: number;
+  headers?: Record<string, string>;
+  fieldMapping?: Partial<N8nFieldMapping>;
+  [key: string]: unknown;
+}
+
+export type TransportFactory = (options: TransportOptions) => ChatTransport;
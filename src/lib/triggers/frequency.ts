@@ -0,0 +1,36 @@
+import type { ProactiveTrigger } from './types';
+
+const STORAGE_KEY = 'chat_trigger_history';
+const DEFAULT_MAX_SHOWS = 3;
+const DEFAULT_COOLDOWN_HOURS = 24;
+
+interface TriggerHistory {
+  count: number;
+  lastShownAt: number;
+}
+
+const readHistory = (): Record<string, TriggerHistory> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+/** מכסת הצגות למבקר - נשמרת ב-localStorage, כך שמבקר חוזר לא יקבל את אותה הודעה שוב ושוב */
+export const canShowTrigger = (trigger: ProactiveTrigger, now = Date.now()) => {
+  const history = readHistory()[trigger.id];
+  if (!history) return true;
+  const cooldownMs = (trigger.cooldownHours ?? DEFAULT_COOLDOWN_HOURS) * 60 * 60 * 1000;
+  return history.count < (trigger.maxShows ?? DEFAULT_MAX_SHOWS) && now - history.lastShownAt >= cooldownMs;
+};
+
+export const recordTriggerShown = (trigger: ProactiveTrigger, now = Date.now()) => {
+  const history = readHistory();
+  history[trigger.id] = { count: (history[trigger.id]?.count ?? 0) + 1, lastShownAt: now };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Error saving trigger history:', error);
+  }
+};
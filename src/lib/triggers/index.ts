@@ -0,0 +1,3 @@
+export type { ProactiveTrigger, TriggerCondition } from './types';
+export { canShowTrigger, recordTriggerShown } from './frequency';
+export { watchCondition } from './watchers';
@@ -0,0 +1,23 @@
+export type TriggerCondition =
+  /** אחרי N שניות בעמוד */
+  | { type: 'delay'; seconds: number }
+  /** גלילה לאחוז מסוים מגובה העמוד */
+  | { type: 'scroll'; percent: number }
+  /** העכבר יוצא מראש החלון (כוונת יציאה) - במחשב בלבד */
+  | { type: 'exitIntent' }
+  /** אלמנט בעמוד (למשל אזור מוצר) נכנס לתצוגה */
+  | { type: 'elementVisible'; selector: string; threshold?: number };
+
+export interface ProactiveTrigger {
+  /** מזהה קבוע - לפיו נספרות ההצגות למבקר */
+  id: string;
+  when: TriggerCondition;
+  /** הודעת הפתיחה של הבוט */
+  message: string;
+  /** open - פותח את חלון הצ'אט; teaser - בועה ליד הכפתור (ברירת מחדל) */
+  action?: 'open' | 'teaser';
+  /** כמה פעמים לכל היותר להציג למבקר (ברירת מחדל: 3) */
+  maxShows?: number;
+  /** מרווח מינימלי בשעות בין הצגות (ברירת מחדל: 24) */
+  cooldownHours?: number;
+}
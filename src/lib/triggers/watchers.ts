@@ -0,0 +1,58 @@
+import type { TriggerCondition } from './types';
+
+const scrollPercent = () => {
+  const { scrollHeight, clientHeight } = document.documentElement;
+  const scrollable = scrollHeight - clientHeight;
+  return scrollable > 0 ? (window.scrollY / scrollable) * 100 : 100;
+};
+
+/** מאזין לתנאי ומפעיל את onFire פעם אחת; מחזיר פונקציה לביטול ההאזנה */
+export const watchCondition = (condition: TriggerCondition, onFire: () => void): (() => void) => {
+  let fired = false;
+  const fire = () => {
+    if (fired) return;
+    fired = true;
+    cleanup();
+    onFire();
+  };
+  let cleanup = () => {};
+
+  switch (condition.type) {
+    case 'delay': {
+      const timeout = setTimeout(fire, condition.seconds * 1000);
+      cleanup = () => clearTimeout(timeout);
+      break;
+    }
+    case 'scroll': {
+      const onScroll = () => {
+        if (scrollPercent() >= condition.percent) fire();
+      };
+      window.addEventListener('scroll', onScroll, { passive: true });
+      cleanup = () => window.removeEventListener('scroll', onScroll);
+      break;
+    }
+    case 'exitIntent': {
+      // יציאה מראש החלון, לא מעבר בין אלמנטים
+      const onMouseOut = (e: MouseEvent) => {
+        if (!e.relatedTarget && e.clientY <= 0) fire();
+      };
+      document.addEventListener('mouseout', onMouseOut);
+      cleanup = () => document.removeEventListener('mouseout', onMouseOut);
+      break;
+    }
+    case 'elementVisible': {
+      if (typeof IntersectionObserver === 'undefined') break;
+      const observer = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) fire();
+        },
+        { threshold: condition.threshold ?? 0.5 }
+      );
+      document.querySelectorAll(condition.selector).forEach((element) => observer.observe(element));
+      cleanup = () => observer.disconnect();
+      break;
+    }
+  }
+
+  return () => cleanup();
+};
@@ -0,0 +1,90 @@
+export interface QuickReply {
+  label: string;
+  /** הטקסט שנשלח בלחיצה (ברירת מחדל: label) */
+  value?: string;
+}
+
+export interface ProductCard {
+  title: string;
+  subtitle?: string;
+  imageUrl?: string;
+  price?: string;
+  url?: string;
+  buttonLabel?: string;
+}
+
+export type RichAttachment =
+  | { type: 'quickReplies'; replies: QuickReply[] }
+  | { type: 'card'; card: ProductCard }
+  | { type: 'carousel'; cards: ProductCard[] };
+
+export interface FileAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: number;
+  /** הקובץ עצמו - בהודעות שהמשתמש שלח */
+  blob?: Blob;
+  /** כתובת להורדה - בקבצים שהבוט שלח */
+  url?: string;
+}
+
+/** מצב השליחה של הודעת משתמש; queued - ממתינה לחזרת החיבור */
+export type MessageStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export type SendFailureReason = 'network' | 'timeout' | 'server' | 'request' | 'response' | 'cancelled' | 'verification';
+
+export interface MessageFeedback {
+  rating: 'up' | 'down';
+  comment?: string;
+}
+
+/** נציג אנושי שהשיחה הועברה אליו */
+export interface AgentInfo {
+  id?: string;
+  name: string;
+  avatarUrl?: string;
+}
+
+/** מי כתב הודעה שאינה של המשתמש: ברירת מחדל הבוט; system - הודעות מצב כמו "נציג הצטרף" */
+export type MessageSender = 'bot' | 'agent' | 'system';
+
+/** העברה לנציג: requested - הבקשה נשלחה, queued - ממתינים בתור, active - נציג בשיחה */
+export interface HandoffState {
+  status: 'requested' | 'queued' | 'active';
+  queuePosition?: number;
+  agent?: AgentInfo;
+  /** האירוע האחרון שהתקבל מהנציג - אחרי טעינה מחדש ממשיכים ממנו ולא מקבלים שוב את אותן הודעות */
+  cursor?: string;
+}
+
+export interface Message {
+  id: string;
+  text: string;
+  isUser: boolean;
+  timestamp: Date;
+  isTyping?: boolean;
+  isStreaming?: boolean; // התשובה עדיין מתקבלת מה-webhook
+  isIncomplete?: boolean; // הסטרים נקטע לפני שהתשובה הסתיימה
+  richAttachments?: RichAttachment[]; // כפתורי תשובה מהירה, כרטיסי מוצר וקרוסלות
+  attachments?: FileAttachment[]; // תמונות וקבצים
+  status?: MessageStatus; // רק בהודעות משתמש
+  failureReason?: SendFailureReason;
+  feedback?: MessageFeedback; // דירוג המשתמש לתשובת הבוט
+  sender?: MessageSender; // רק בהודעות שאינן של המשתמש
+  agent?: AgentInfo; // בהודעות נציג
+}
+
+export type LeadField = 'name' | 'phone' | 'company' | 'email' | 'topic';
+
+/** פרטי הקשר שהמשתמש מילא בטופס; אובייקט ריק - המשתמש דילג */
+export type LeadInfo = Partial<Record<LeadField, string>>;
+
+export interface Conversation {
+  id: string; // ה-sessionId שנשלח ל-n8n
+  title: string; // נגזר מהודעת המשתמש הראשונה
+  customTitle?: string; // שם שהמשתמש בחר
+  createdAt: Date;
+  updatedAt: Date; // זמן ההודעה האחרונה
+  lead?: LeadInfo; // נשלח ב-metadata של כל בקשה בשיחה
+}
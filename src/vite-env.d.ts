@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CHAT_TRANSPORT?: string;
+  readonly VITE_N8N_WEBHOOK_URL?: string;
+  /** webhook לדירוג תשובות (👍/👎); בלעדיו כפתורי המשוב לא מוצגים */
+  readonly VITE_N8N_FEEDBACK_WEBHOOK_URL?: string;
+  /** webhook לשליחת תמליל השיחה במייל; בלעדיו האפשרות לא מוצגת */
+  readonly VITE_N8N_TRANSCRIPT_WEBHOOK_URL?: string;
+  /** webhook להעברה לנציג אנושי; בלעדיו אין מצב נציג */
+  readonly VITE_N8N_HANDOFF_WEBHOOK_URL?: string;
+  /** SSE או WebSocket (ws/wss) לאירועי הנציג; בלעדיו - polling ל-webhook ההעברה */
+  readonly VITE_N8N_AGENT_EVENTS_URL?: string;
+  /** JSON של headers נוספים, למשל {"Authorization":"Bearer ..."} */
+  readonly VITE_N8N_HEADERS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,109 @@
+import type { RetryPolicy, TransportOptions } from '../lib/transport';
+import type { PendingMessagePolicy } from '../components/Chat';
+import type { ChatThemeConfig, ColorScheme, LauncherPosition } from '../lib/theme';
+import type { LeadFormConfig } from '../lib/lead';
+import type { ProactiveTrigger } from '../lib/triggers';
+import type { AnalyticsConfig } from '../lib/analytics';
+import type { LinkPolicyConfig } from '../lib/linkPolicy';
+import type { ProtectionConfig } from '../lib/protection';
+
+export interface WidgetConfig {
+  webhookUrl?: string;
+  /** שם adapter רשום (ברירת מחדל: n8n) */
+  adapter?: string;
+  headers?: Record<string, string>;
+  fieldMapping?: TransportOptions['fieldMapping'];
+  /** שפת הממשק, למשל he-IL או en-US (ברירת מחדל: שפת הדפדפן) */
+  locale?: string;
+  /** מיתוג: צבעים, שם הבוט, אווטאר, מיקום, הודעות פתיחה ומצב כהה */
+  theme?: ChatThemeConfig;
+  /** טופס פרטי קשר לפני השיחה או לבקשת הבוט */
+  leadForm?: LeadFormConfig;
+  /** פתיחה יזומה: הודעת בוט אחרי זמן, בגלילה, בכוונת יציאה או כשאזור בעמוד נראה */
+  triggers?: ProactiveTrigger[];
+  /** שדות שנשלחים עם כל הודעה; בזמן ריצה - ChatWidget.setContext */
+  context?: Record<string, unknown>;
+  /** השדות שמותר לשלוח ב-metadata; כל השאר מסוננים */
+  contextAllowList?: string[];
+  /** יעדי אירועי השימוש; לא נשלח דבר עד ChatWidget.setAnalyticsConsent(true) או consent: true */
+  analytics?: AnalyticsConfig;
+  /** קישורים בתשובות הבוט: דומיינים מותרים וחסומים, הדומיינים של האתר ואישור לפני יציאה */
+  linkPolicy?: LinkPolicyConfig;
+  /** כפתור מיקרופון (ברירת מחדל: true) */
+  voiceInput?: boolean;
+  /** כפתור הקראה בקול בתשובות הבוט (ברירת מחדל: true) */
+  readAloud?: boolean;
+  /** ניסיונות חוזרים ו-timeout לשליחת הודעה */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** הודעה שנשלחת בזמן שתשובה בדרך: queue (ברירת מחדל) או replace */
+  pendingPolicy?: PendingMessagePolicy;
+  /** מספר התווים המקסימלי בהודעה (ברירת מחדל: 2000) */
+  maxMessageLength?: number;
+  /** הגבלת קצב, חסימת הודעות כפולות ומאמת אנושי שהטוקן שלו נשלח עם כל הודעה */
+  protection?: ProtectionConfig;
+  /** פתיחת חלון הצ'אט מיד אחרי הטעינה */
+  open?: boolean;
+}
+
+/**
+ * הגדרות מתגית ה-script:
+ *
+ * <script src="chat-widget.js" data-webhook-url="https://..." data-locale="he-IL" data-theme="dark"
+ *   data-bot-name="יהב" data-primary-color="#0f766e" data-position="left"
+ *   data-analytics-url="https://..." data-data-layer></script>
+ *
+ * data-theme הוא מצב התצוגה (light / dark / auto); שאר המיתוג זמין דרך init({ theme }).
+ *
+ * הווידג'ט נטען אוטומטית רק כשיש בתגית הגדרות (data-*) או data-auto-init="true";
+ * בלעדיהן קוראים ל-window.ChatWidget.init({...}). data-auto-init="false" מבטל טעינה אוטומטית גם כשיש הגדרות.
+ */
+export const readScriptConfig = (script: HTMLScriptElement | null): WidgetConfig => {
+  if (!script) return {};
+  const {
+    webhookUrl,
+    adapter,
+    headers,
+    locale,
+    theme,
+    botName,
+    avatarUrl,
+    primaryColor,
+    position,
+    analyticsUrl,
+    dataLayer,
+    open,
+  } = script.dataset;
+  let parsedHeaders: Record<string, string> | undefined;
+  if (headers) {
+    try {
+      parsedHeaders = JSON.parse(headers);
+    } catch (error) {
+      console.error('Invalid data-headers:', error);
+    }
+  }
+  return {
+    webhookUrl,
+    adapter,
+    headers: parsedHeaders,
+    locale,
+    theme: {
+      colorScheme: theme as ColorScheme | undefined,
+      botName,
+      avatarUrl,
+      position: position as LauncherPosition | undefined,
+      colors: primaryColor ? { primary: primaryColor, primaryHover: primaryColor } : undefined,
+    },
+    analytics: {
+      beaconUrl: analyticsUrl,
+      dataLayer: dataLayer === 'true' || dataLayer === '',
+    },
+    open: open === 'true' || open === '',
+  };
+};
+
+export const isAutoInit = (script: HTMLScriptElement | null) => {
+  if (!script) return false;
+  const { autoInit, ...config } = script.dataset;
+  if (autoInit) return autoInit !== 'false';
+  return Object.keys(config).length > 0;
+};
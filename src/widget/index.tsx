@@ -0,0 +1,164 @@
+import { StrictMode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { Chat, type ChatHandle } from '../components/Chat';
+import type { Message } from '../types/chat';
+import { isAutoInit, readScriptConfig, type WidgetConfig } from './config';
+import styles from './widget.css?inline';
+
+/**
+ * נקודת הכניסה של ה-build המוטמע (npm run build:widget). הצ'אט נטען לתוך Shadow DOM,
+ * כך ש-Tailwind לא מתנגש ב-CSS של האתר המארח. ה-API זמין כ-window.ChatWidget:
+ *
+ * ChatWidget.init({ webhookUrl, locale, theme });
+ * ChatWidget.open();
+ * ChatWidget.setContext({ product: 'מסוע חלזוני 6"' });
+ * ChatWidget.setAnalyticsConsent(true); // אחרי שהמבקר אישר עוגיות סטטיסטיקה
+ * const unsubscribe = ChatWidget.onMessage((message) => console.log(message));
+ */
+
+export type { WidgetConfig };
+
+type Listener<T> = (value: T) => void;
+
+// נלכד בזמן הרצת הסקריפט - אחרי זה document.currentScript כבר null
+const currentScript = document.currentScript as HTMLScriptElement | null;
+
+const listeners = {
+  message: new Set<Listener<Message>>(),
+  open: new Set<Listener<void>>(),
+  close: new Set<Listener<void>>(),
+};
+
+let host: HTMLElement | null = null;
+let root: Root | null = null;
+let handle: ChatHandle | null = null;
+// ההגדרות מתגית ה-script, כשהווידג'ט נטען מהן אוטומטית
+let autoConfig: WidgetConfig | null = null;
+// קריאות שהגיעו לפני שהקומפוננטה עלתה
+let pending: ((chat: ChatHandle) => void)[] = [];
+
+const withHandle = (action: (chat: ChatHandle) => void) => {
+  if (handle) action(handle);
+  else pending.push(action);
+};
+
+const attachHandle = (chat: ChatHandle | null) => {
+  handle = chat;
+  if (!chat) return;
+  const queued = pending;
+  pending = [];
+  queued.forEach((action) => action(chat));
+};
+
+const subscribe = <T,>(set: Set<Listener<T>>, listener: Listener<T>) => {
+  set.add(listener);
+  return () => {
+    set.delete(listener);
+  };
+};
+
+// כללי @property לא נרשמים מתוך Shadow DOM, ובלעדיהם חלק ממחלקות Tailwind (צללים, טבעות, טרנספורמציות) לא עובדות
+const registerCssProperties = () => {
+  const rules = styles.match(/@property[^{]+\{[^}]*\}/g);
+  if (!rules || document.getElementById('chat-widget-properties')) return;
+  const style = document.createElement('style');
+  style.id = 'chat-widget-properties';
+  style.textContent = rules.join('\n');
+  document.head.appendChild(style);
+};
+
+export const init = (config: WidgetConfig = {}) => {
+  if (root && autoConfig) {
+    // init() מפורש אחרי טעינה אוטומטית - ההגדרות שלו גוברות על אלה שבתגית
+    const scriptConfig = autoConfig;
+    const queued = pending;
+    destroy();
+    pending = queued;
+    init({ ...scriptConfig, ...config, theme: { ...scriptConfig.theme, ...config.theme } });
+    return;
+  }
+  if (root) {
+    console.warn('ChatWidget is already initialized');
+    return;
+  }
+
+  registerCssProperties();
+  host = document.createElement('div');
+  host.id = 'chat-widget';
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = styles;
+  const container = document.createElement('div');
+  shadow.append(style, container);
+  document.body.appendChild(host);
+
+  root = createRoot(container);
+  root.render(
+    <StrictMode>
+      <Chat
+        ref={attachHandle}
+        adapter={config.adapter}
+        transportOptions={{ webhookUrl: config.webhookUrl, headers: config.headers, fieldMapping: config.fieldMapping }}
+        retryPolicy={config.retryPolicy}
+        pendingPolicy={config.pendingPolicy}
+        voiceInput={config.voiceInput}
+        readAloud={config.readAloud}
+        locale={config.locale}
+        theme={config.theme}
+        leadForm={config.leadForm}
+        triggers={config.triggers}
+        context={config.context}
+        contextAllowList={config.contextAllowList}
+        analytics={config.analytics}
+        linkPolicy={config.linkPolicy}
+        maxMessageLength={config.maxMessageLength}
+        protection={config.protection}
+        onMessage={(message) => listeners.message.forEach((listener) => listener(message))}
+        onOpen={() => listeners.open.forEach((listener) => listener())}
+        onClose={() => listeners.close.forEach((listener) => listener())}
+      />
+    </StrictMode>
+  );
+
+  if (config.open) open();
+};
+
+export const destroy = () => {
+  root?.unmount();
+  host?.remove();
+  root = null;
+  host = null;
+  handle = null;
+  pending = [];
+  autoConfig = null;
+};
+
+export const open = () => withHandle((chat) => chat.open());
+
+export const close = () => withHandle((chat) => chat.close());
+
+export const sendMessage = (text: string) => withHandle((chat) => chat.sendMessage(text));
+
+export const setContext = (fields: Record<string, unknown>) => withHandle((chat) => chat.setContext(fields));
+
+export const setAnalyticsConsent = (granted: boolean) => withHandle((chat) => chat.setAnalyticsConsent(granted));
+
+export const onMessage = (listener: Listener<Message>) => subscribe(listeners.message, listener);
+
+export const onOpen = (listener: () => void) => subscribe(listeners.open, listener);
+
+export const onClose = (listener: () => void) => subscribe(listeners.close, listener);
+
+if (isAutoInit(currentScript)) {
+  const config = readScriptConfig(currentScript);
+  const autoInit = () => {
+    if (root) return;
+    init(config);
+    autoConfig = config;
+  };
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', autoInit, { once: true });
+  } else {
+    autoInit();
+  }
+}
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite'
+import tailwindcss from '@tailwindcss/vite'
+
+// build נפרד של הווידג'ט המוטמע: קובץ JS יחיד שנטען מתגית script (ראו src/widget/index.tsx)
+export default defineConfig({
+  plugins: [
+    tailwindcss(),
+  ],
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  // public/ שייך לאפליקציה ולא לווידג'ט
+  publicDir: false,
+  build: {
+    outDir: 'dist-widget',
+    lib: {
+      entry: 'src/widget/index.tsx',
+      name: 'ChatWidget',
+      formats: ['iife'],
+      fileName: () => 'chat-widget.js',
+    },
+  },
+})